@@ -0,0 +1,58 @@
+/**
+ * Relays remote control messages between the visualiser and the controller page, every message
+ * is passed on to every other connection. It also serves the controller page, so phones on the
+ * same network can open it.
+ *
+ * Usage: npm run remote [-- port], the port defaults to 8080
+ */
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { WebSocket, WebSocketServer } = require('ws');
+
+const port = Number(process.argv[2] || process.env.PORT || 8080);
+const controllerPage = path.join(__dirname, 'controller.html');
+
+const server = http.createServer((request, response) => {
+  if (request.url !== '/' && request.url !== '/index.html') {
+    response.writeHead(404);
+    response.end('Not found');
+    return;
+  }
+  fs.readFile(controllerPage, (error, page) => {
+    if (error) {
+      response.writeHead(500);
+      response.end('Unable to read the controller page');
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    response.end(page);
+  });
+});
+
+const sockets = new WebSocketServer({ server });
+sockets.on('connection', (socket) => {
+  socket.on('message', (data, isBinary) => {
+    for (const client of sockets.clients) {
+      if (client !== socket && client.readyState === WebSocket.OPEN) {
+        client.send(data, { binary: isBinary });
+      }
+    }
+  });
+});
+
+server.listen(port, () => {
+  const addresses = Object.values(os.networkInterfaces())
+    .flat()
+    .filter((address) => address && address.family === 'IPv4' && !address.internal)
+    .map((address) => address.address);
+  console.log('Connect the visualiser to one of these in Settings > Remote control:');
+  for (const address of ['localhost', ...addresses]) {
+    console.log(`  ws://${address}:${port}`);
+  }
+  console.log('Open the controller page on a phone at one of these:');
+  for (const address of addresses) {
+    console.log(`  http://${address}:${port}`);
+  }
+});
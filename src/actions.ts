@@ -0,0 +1,18 @@
+import { HopalongAction } from './types/hopalong';
+
+export const ACTION_NAMES: { [action in HopalongAction]: string } = {
+  fovUp: 'Widen field of view',
+  fovDown: 'Narrow field of view',
+  levelsUp: 'More levels and subsets',
+  levelsDown: 'Fewer levels and subsets',
+  pointsUp: 'More points',
+  pointsDown: 'Fewer points',
+  recenter: 'Recenter',
+  reset: 'Reset',
+  nextOrbit: 'Next orbit',
+  cycleRegenerationMode: 'Change regeneration mode',
+  exportImage: 'Save image',
+  toggleCursor: 'Show or hide the cursor',
+};
+
+export const HOPALONG_ACTIONS = Object.keys(ACTION_NAMES) as HopalongAction[];
@@ -0,0 +1,134 @@
+import { Attractor, AttractorName } from './types/hopalong';
+
+// Parameter constraints of Barry Martin's Hopalong formula
+const A_MIN = -30;
+const A_MAX = 30;
+const B_MIN = 0.2;
+const B_MAX = 1.8;
+const C_MIN = 5;
+const C_MAX = 17;
+const D_MIN = 0;
+const D_MAX = 10;
+const E_MIN = 0;
+const E_MAX = 12;
+
+export const DEFAULT_ATTRACTOR: AttractorName = 'hopalongExtended';
+
+export const ATTRACTORS: { [name in AttractorName]: Attractor } = {
+  hopalongExtended: {
+    name: 'Hopalong (5 parameters)',
+    // Generalization of Barry Martin's original formula, reduces to it when d = e = 0
+    iterate: (x, y, { a, b, c, d, e }) => [
+      y - (d + Math.sqrt(Math.abs(b * x - c))) * Math.sign(x) + e,
+      a - x,
+    ],
+    paramRanges: {
+      a: [A_MIN, A_MAX],
+      b: [B_MIN, B_MAX],
+      c: [C_MIN, C_MAX],
+      d: [D_MIN, D_MAX],
+      e: [E_MIN, E_MAX],
+    },
+    start: [0, 0],
+  },
+  hopalong: {
+    name: 'Hopalong (3 parameters)',
+    iterate: (x, y, { a, b, c }) => [y - Math.sqrt(Math.abs(b * x - c)) * Math.sign(x), a - x],
+    paramRanges: {
+      a: [A_MIN, A_MAX],
+      b: [B_MIN, B_MAX],
+      c: [C_MIN, C_MAX],
+      d: [0, 0],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+  hopalong2: {
+    name: 'Hopalong 2',
+    iterate: (x, y, { a, b, c }) => [
+      y - 1.0 - Math.sqrt(Math.abs(b * x - 1.0 - c)) * Math.sign(x - 1.0),
+      a - x - 1.0,
+    ],
+    paramRanges: {
+      a: [A_MIN, A_MAX],
+      b: [B_MIN, B_MAX],
+      c: [C_MIN, C_MAX],
+      d: [0, 0],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+  martinPositive: {
+    name: 'Martin (positive)',
+    iterate: (x, y, { a }) => [y - Math.sin(x), a - x],
+    paramRanges: {
+      a: [2.7, 3.3],
+      b: [0, 0],
+      c: [0, 0],
+      d: [0, 0],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+  martinNegative: {
+    name: 'Martin (negative)',
+    iterate: (x, y, { a }) => [y + Math.sin(x), a - x],
+    paramRanges: {
+      a: [2.7, 3.3],
+      b: [0, 0],
+      c: [0, 0],
+      d: [0, 0],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+  gumowskiMira: {
+    name: 'Gumowski–Mira',
+    iterate: (x, y, { a, b, c }) => {
+      // c is the mu parameter of the map
+      const f = (n: number) => c * n + (2 * (1 - c) * n * n) / (1 + n * n);
+      const xn = y + a * (1 - b * y * y) * y + f(x);
+      return [xn, -x + f(xn)];
+    },
+    paramRanges: {
+      a: [0.005, 0.01],
+      b: [0.03, 0.07],
+      c: [-0.8, 0.4],
+      d: [0, 0],
+      e: [0, 0],
+    },
+    start: [1, 0],
+  },
+  clifford: {
+    name: 'Clifford',
+    iterate: (x, y, { a, b, c, d }) => [
+      Math.sin(a * y) + c * Math.cos(a * x),
+      Math.sin(b * x) + d * Math.cos(b * y),
+    ],
+    paramRanges: {
+      a: [-2, 2],
+      b: [-2, 2],
+      c: [-1.5, 1.5],
+      d: [-1.5, 1.5],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+  deJong: {
+    name: 'de Jong',
+    iterate: (x, y, { a, b, c, d }) => [
+      Math.sin(a * y) - Math.cos(b * x),
+      Math.sin(c * x) - Math.cos(d * y),
+    ],
+    paramRanges: {
+      a: [-3, 3],
+      b: [-3, 3],
+      c: [-3, 3],
+      d: [-3, 3],
+      e: [0, 0],
+    },
+    start: [0, 0],
+  },
+};
+
+export const ATTRACTOR_NAMES = Object.keys(ATTRACTORS) as AttractorName[];
@@ -0,0 +1,149 @@
+/**
+ * Frequency analysis of PCM audio, kept free of Web Audio so it works on any sample buffer
+ */
+
+export type BandLevels = {
+  bass: number;
+  mid: number;
+  treble: number;
+};
+
+/** Frequency ranges of the bands, in Hz */
+export const BANDS: { [band in keyof BandLevels]: [number, number] } = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 16000],
+};
+
+/**
+ * In-place radix-2 fast Fourier transform
+ */
+export function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT input must be a power of two long.');
+  }
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum of the samples, scaled so a full scale sine wave peaks at about 1.
+ * The result has one bin per `sampleRate / samples.length` Hz, up to the Nyquist frequency.
+ */
+export function computeSpectrum(samples: Float32Array): Float32Array {
+  const n = samples.length;
+  const real = new Float32Array(n);
+  const imag = new Float32Array(n);
+  // A Hann window keeps frequencies between bins from smearing over the whole spectrum
+  for (let i = 0; i < n; i++) {
+    real[i] = samples[i] * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  fft(real, imag);
+
+  const spectrum = new Float32Array(n / 2);
+  // The window halves the amplitude, and it is split between positive and negative frequencies
+  const scale = 4 / n;
+  for (let i = 0; i < n / 2; i++) {
+    spectrum[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]) * scale;
+  }
+  return spectrum;
+}
+
+/**
+ * Peak level of every band, from 0 for silence to about 1 for a full scale tone
+ */
+export function measureBands(spectrum: Float32Array, sampleRate: number): BandLevels {
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const measure = ([low, high]: [number, number]) => {
+    const first = Math.max(1, Math.floor(low / binWidth));
+    const last = Math.min(spectrum.length - 1, Math.ceil(high / binWidth));
+    let peak = 0;
+    for (let i = first; i <= last; i++) {
+      peak = Math.max(peak, spectrum[i]);
+    }
+    return Math.min(peak, 1);
+  };
+  return {
+    bass: measure(BANDS.bass),
+    mid: measure(BANDS.mid),
+    treble: measure(BANDS.treble),
+  };
+}
+
+// Roughly a second of history at 60 measurements per second
+const BEAT_HISTORY_SIZE = 60;
+// Beats closer together than this are counted as one, in seconds
+const MIN_BEAT_INTERVAL = 0.25;
+// Quieter signals are treated as silence, so noise doesn't trigger beats
+const MIN_BEAT_ENERGY = 0.001;
+
+/**
+ * Detects beats as sudden rises of energy above its recent average
+ */
+export class BeatDetector {
+  private history: number[] = [];
+  private sinceBeat = Infinity;
+
+  /**
+   * Adds the energy measured `delta` seconds after the previous one, returns whether it is a beat.
+   * Beats need to exceed the average energy by a factor of `sensitivity`.
+   */
+  detect(energy: number, delta: number, sensitivity: number): boolean {
+    this.sinceBeat += delta;
+    const average =
+      this.history.reduce((sum, value) => sum + value, 0) / Math.max(this.history.length, 1);
+    this.history.push(energy);
+    if (this.history.length > BEAT_HISTORY_SIZE) {
+      this.history.shift();
+    }
+
+    const isBeat =
+      energy > MIN_BEAT_ENERGY &&
+      energy > average * sensitivity &&
+      this.sinceBeat >= MIN_BEAT_INTERVAL;
+    if (isBeat) {
+      this.sinceBeat = 0;
+    }
+    return isBeat;
+  }
+
+  reset() {
+    this.history = [];
+    this.sinceBeat = Infinity;
+  }
+}
@@ -0,0 +1,75 @@
+import { AudioInputKind } from '../types/hopalong';
+
+export type AudioInput = {
+  kind: AudioInputKind;
+  sampleRate: number;
+  /** Returns the most recent samples, the array is reused between calls */
+  read: () => Float32Array;
+  stop: () => void;
+};
+
+const FFT_SIZE = 2048;
+
+function createAnalyserInput(
+  kind: AudioInputKind,
+  context: AudioContext,
+  source: AudioNode,
+  onStop: () => void
+): AudioInput {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  return {
+    kind,
+    sampleRate: context.sampleRate,
+    read: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return samples;
+    },
+    stop: () => {
+      onStop();
+      source.disconnect();
+      context.close();
+    },
+  };
+}
+
+/**
+ * Listens to the microphone, asking for permission first
+ */
+export async function openMicrophone(): Promise<AudioInput> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Microphone access is not supported by this browser.');
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  return createAnalyserInput('microphone', context, source, () =>
+    stream.getTracks().forEach((track) => track.stop())
+  );
+}
+
+/**
+ * Plays a local audio file on loop while analysing it
+ */
+export async function openAudioFile(file: File): Promise<AudioInput> {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio(url);
+  audio.loop = true;
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(audio);
+  // The file is heard as well as analysed
+  source.connect(context.destination);
+  try {
+    await audio.play();
+  } catch (e) {
+    context.close();
+    URL.revokeObjectURL(url);
+    throw new Error('Unable to play this audio file.');
+  }
+  return createAnalyserInput('file', context, source, () => {
+    audio.pause();
+    URL.revokeObjectURL(url);
+  });
+}
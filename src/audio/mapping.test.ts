@@ -0,0 +1,94 @@
+import { AudioMappingEngine, DEFAULT_AUDIO_MAPPING } from './mapping';
+
+// Every bin is 32 Hz wide at this rate, so the tones below fall exactly on a bin
+const SAMPLE_RATE = 32768;
+const SAMPLE_COUNT = 1024;
+const FRAME = 1 / 60;
+const BASS_TONE = 128;
+const MID_TONE = 1024;
+
+function tone(frequency: number, amplitude = 1) {
+  const samples = new Float32Array(SAMPLE_COUNT);
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+const silence = () => new Float32Array(SAMPLE_COUNT);
+
+/** Feeds the same samples for `seconds`, returns the last response */
+function play(engine: AudioMappingEngine, samples: Float32Array, seconds: number) {
+  let response = engine.process(samples, SAMPLE_RATE, FRAME);
+  for (let time = FRAME; time < seconds; time += FRAME) {
+    response = engine.process(samples, SAMPLE_RATE, FRAME);
+  }
+  return response;
+}
+
+describe('AudioMappingEngine', () => {
+  it('leaves the flight alone in silence', () => {
+    const response = play(new AudioMappingEngine(), silence(), 1);
+    expect(response.speedFactor).toBe(1);
+    expect(response.rotationOffset).toBe(0);
+    expect(response.beat).toBe(false);
+  });
+
+  it('speeds up with the bass', () => {
+    const response = play(new AudioMappingEngine(), tone(BASS_TONE), 1);
+    expect(response.levels.bass).toBeCloseTo(1, 2);
+    expect(response.speedFactor).toBeCloseTo(1 + DEFAULT_AUDIO_MAPPING.audioSpeedAmount, 2);
+    expect(response.rotationOffset).toBeLessThan(0.05);
+  });
+
+  it('turns with the mids', () => {
+    const response = play(new AudioMappingEngine(), tone(MID_TONE), 1);
+    expect(response.levels.mid).toBeCloseTo(1, 2);
+    expect(response.rotationOffset).toBeCloseTo(DEFAULT_AUDIO_MAPPING.audioRotationAmount, 2);
+    expect(response.speedFactor).toBeLessThan(1.05);
+  });
+
+  it('scales the response by the mapping amounts', () => {
+    const engine = new AudioMappingEngine({
+      ...DEFAULT_AUDIO_MAPPING,
+      audioSpeedAmount: 0,
+      audioRotationAmount: 2,
+    });
+    const bass = play(engine, tone(BASS_TONE), 1);
+    expect(bass.speedFactor).toBe(1);
+    const mid = play(engine, tone(MID_TONE), 1);
+    expect(mid.rotationOffset).toBeCloseTo(2, 1);
+  });
+
+  it('follows rising levels faster than falling ones', () => {
+    const engine = new AudioMappingEngine();
+    const rising = engine.process(tone(BASS_TONE), SAMPLE_RATE, FRAME).levels.bass;
+    play(engine, tone(BASS_TONE), 1);
+    const falling = 1 - engine.process(silence(), SAMPLE_RATE, FRAME).levels.bass;
+    expect(rising).toBeGreaterThan(0);
+    expect(falling).toBeGreaterThan(0);
+    expect(rising).toBeGreaterThan(falling);
+  });
+
+  it('detects a beat when the bass kicks in, once', () => {
+    const engine = new AudioMappingEngine();
+    play(engine, tone(BASS_TONE, 0.01), 1);
+    expect(engine.process(tone(BASS_TONE), SAMPLE_RATE, FRAME).beat).toBe(true);
+    expect(engine.process(tone(BASS_TONE), SAMPLE_RATE, FRAME).beat).toBe(false);
+  });
+
+  it('ignores a steady bass', () => {
+    const engine = new AudioMappingEngine();
+    play(engine, tone(BASS_TONE), 1);
+    expect(play(engine, tone(BASS_TONE), 1).beat).toBe(false);
+  });
+
+  it('forgets the music when reset', () => {
+    const engine = new AudioMappingEngine();
+    play(engine, tone(BASS_TONE), 1);
+    engine.reset();
+    const response = engine.process(silence(), SAMPLE_RATE, FRAME);
+    expect(response.speedFactor).toBe(1);
+    expect(response.levels).toEqual({ bass: 0, mid: 0, treble: 0 });
+  });
+});
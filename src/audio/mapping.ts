@@ -0,0 +1,77 @@
+import { AudioBeatAction, SimSettings } from '../types/hopalong';
+import { BandLevels, BeatDetector, computeSpectrum, measureBands } from './analysis';
+
+export type AudioMapping = Pick<
+  SimSettings,
+  'audioSpeedAmount' | 'audioRotationAmount' | 'audioBeatAction' | 'audioSensitivity'
+>;
+
+export const AUDIO_BEAT_ACTIONS: AudioBeatAction[] = ['none', 'nextOrbit', 'hueShift'];
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = {
+  audioSpeedAmount: 1,
+  audioRotationAmount: 0.5,
+  audioBeatAction: 'hueShift',
+  audioSensitivity: 1.5,
+};
+
+export type AudioResponse = {
+  /** Factor the forward speed is scaled by */
+  speedFactor: number;
+  /** Added to the rotation speed, in radians per second */
+  rotationOffset: number;
+  /** Whether a beat started in this frame */
+  beat: boolean;
+  /** Smoothed levels the response is based on */
+  levels: BandLevels;
+};
+
+// Time levels take to follow the music, in seconds
+const ATTACK_TIME = 0.05;
+const RELEASE_TIME = 0.3;
+
+/**
+ * Turns PCM audio into changes to the flight: bass drives the speed, mids the rotation and
+ * beats trigger the beat action
+ */
+export class AudioMappingEngine {
+  mapping: AudioMapping;
+  private levels: BandLevels = { bass: 0, mid: 0, treble: 0 };
+  private beatDetector = new BeatDetector();
+
+  constructor(mapping: AudioMapping = DEFAULT_AUDIO_MAPPING) {
+    this.mapping = mapping;
+  }
+
+  /**
+   * Analyses `samples` recorded at `sampleRate`, `delta` seconds after the previous call.
+   * The number of samples must be a power of two.
+   */
+  process(samples: Float32Array, sampleRate: number, delta: number): AudioResponse {
+    const raw = measureBands(computeSpectrum(samples), sampleRate);
+    const smooth = (current: number, target: number) => {
+      const time = target > current ? ATTACK_TIME : RELEASE_TIME;
+      return current + (target - current) * (1 - Math.exp(-delta / time));
+    };
+    this.levels = {
+      bass: smooth(this.levels.bass, raw.bass),
+      mid: smooth(this.levels.mid, raw.mid),
+      treble: smooth(this.levels.treble, raw.treble),
+    };
+
+    const { audioSpeedAmount, audioRotationAmount, audioSensitivity } = this.mapping;
+    // Beats are detected on the unsmoothed bass, smoothing would blunt the onsets
+    const beat = this.beatDetector.detect(raw.bass * raw.bass, delta, audioSensitivity);
+    return {
+      speedFactor: 1 + this.levels.bass * audioSpeedAmount,
+      rotationOffset: this.levels.mid * audioRotationAmount,
+      beat,
+      levels: { ...this.levels },
+    };
+  }
+
+  reset() {
+    this.levels = { bass: 0, mid: 0, treble: 0 };
+    this.beatDetector.reset();
+  }
+}
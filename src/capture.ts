@@ -0,0 +1,161 @@
+import {
+  HalfFloatType,
+  Material,
+  PerspectiveCamera,
+  PointsMaterial,
+  Scene,
+  Vector2,
+  WebGLRenderTarget,
+  WebGLRenderer,
+} from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ExportResolution } from './types/hopalong';
+
+export const EXPORT_RESOLUTIONS: {
+  [name in ExportResolution]: { label: string; width: number; height: number };
+} = {
+  fullHd: { label: 'Full HD (1920×1080)', width: 1920, height: 1080 },
+  qhd: { label: 'QHD (2560×1440)', width: 2560, height: 1440 },
+  uhd4k: { label: '4K (3840×2160)', width: 3840, height: 2160 },
+  uhd8k: { label: '8K (7680×4320)', width: 7680, height: 4320 },
+  a4Print: { label: 'A4 print, 300 DPI (3508×2480)', width: 3508, height: 2480 },
+  a3Print: { label: 'A3 print, 300 DPI (4961×3508)', width: 4961, height: 3508 },
+};
+export const DEFAULT_EXPORT_RESOLUTION: ExportResolution = 'uhd4k';
+
+// Larger images are rendered in tiles, which keeps within the limits of most GPUs
+const MAX_TILE_SIZE = 4096;
+
+type RenderImageProps = {
+  renderer: WebGLRenderer;
+  scene: Scene;
+  camera: PerspectiveCamera;
+  /** Materials whose point size is scaled along with the image */
+  materials: (Material & { size: number })[];
+  width: number;
+  height: number;
+  /** Post-processing drawn over every tile, the passes are disposed of afterwards */
+  createPasses?: (tileScale: number) => Pass[];
+};
+
+/**
+ * Renders the scene at an arbitrary resolution into a PNG image, independent of the window size.
+ * Tiles are drawn into render targets and read back, so the canvas on the page is left alone.
+ */
+export function renderImage({
+  renderer,
+  scene,
+  camera,
+  materials,
+  width,
+  height,
+  createPasses,
+}: RenderImageProps): Promise<Blob> {
+  const gl = renderer.getContext();
+  const [maxViewportWidth, maxViewportHeight] = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+  // Tiles are drawn into textures, which may be smaller than the viewport
+  const maxTileSize = Math.min(MAX_TILE_SIZE, renderer.capabilities.maxTextureSize);
+  const maxTileWidth = Math.min(maxTileSize, maxViewportWidth);
+  const maxTileHeight = Math.min(maxTileSize, maxViewportHeight);
+  const tilesX = Math.ceil(width / maxTileWidth);
+  const tilesY = Math.ceil(height / maxTileHeight);
+  const tileWidth = Math.ceil(width / tilesX);
+  const tileHeight = Math.ceil(height / tilesY);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Unable to create image canvas.'));
+  }
+
+  // The scene is drawn in linear colours, the output pass converts them into the 8 bit target
+  const composer = new EffectComposer(
+    renderer,
+    new WebGLRenderTarget(tileWidth, tileHeight, { type: HalfFloatType })
+  );
+  composer.setPixelRatio(1);
+  composer.renderToScreen = false;
+  composer.addPass(new RenderPass(scene, camera));
+  const passes = createPasses?.(width / tileWidth) ?? [];
+  passes.forEach((pass) => composer.addPass(pass));
+  const outputPass = new OutputPass();
+  const outputTarget = new WebGLRenderTarget(tileWidth, tileHeight);
+  const pixels = new Uint8Array(tileWidth * tileHeight * 4);
+  const tile = context.createImageData(tileWidth, tileHeight);
+  const rowLength = tileWidth * 4;
+
+  const previousRenderTarget = renderer.getRenderTarget();
+  const previousAspect = camera.aspect;
+  // The camera may show only a part of the view, like a slice of a panorama
+  const previousView = camera.view && { ...camera.view };
+  const previousSizes = materials.map(({ size }) => size);
+  camera.aspect = width / height;
+  // Points are scaled by the height of the canvas, shader particles by the height of the target
+  const canvasHeight = renderer.getSize(new Vector2()).y * renderer.getPixelRatio();
+  materials.forEach(
+    (material) =>
+      (material.size *= height / (material instanceof PointsMaterial ? canvasHeight : tileHeight))
+  );
+
+  try {
+    for (let y = 0; y < tilesY; y++) {
+      for (let x = 0; x < tilesX; x++) {
+        const offsetX = x * tileWidth;
+        const offsetY = y * tileHeight;
+        camera.setViewOffset(width, height, offsetX, offsetY, tileWidth, tileHeight);
+        composer.render(0);
+        outputPass.render(renderer, outputTarget, composer.readBuffer, 0, false);
+        renderer.readRenderTargetPixels(outputTarget, 0, 0, tileWidth, tileHeight, pixels);
+        // Render targets are read from the bottom row up
+        for (let row = 0; row < tileHeight; row++) {
+          tile.data.set(
+            pixels.subarray(row * rowLength, (row + 1) * rowLength),
+            (tileHeight - 1 - row) * rowLength
+          );
+        }
+        context.putImageData(tile, offsetX, offsetY);
+      }
+    }
+  } finally {
+    if (previousView?.enabled) {
+      camera.setViewOffset(
+        previousView.fullWidth,
+        previousView.fullHeight,
+        previousView.offsetX,
+        previousView.offsetY,
+        previousView.width,
+        previousView.height
+      );
+    } else {
+      camera.clearViewOffset();
+    }
+    camera.aspect = previousAspect;
+    camera.updateProjectionMatrix();
+    materials.forEach((material, i) => (material.size = previousSizes[i]));
+    renderer.setRenderTarget(previousRenderTarget);
+    composer.dispose();
+    passes.forEach((pass) => pass.dispose());
+    outputPass.dispose();
+    outputTarget.dispose();
+  }
+
+  return canvasToBlob(output);
+}
+
+/**
+ * Encodes the canvas as PNG. The canvas content is copied straight away, so a WebGL canvas
+ * can be captured right after rendering to it.
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Unable to encode image.'))),
+      'image/png'
+    )
+  );
+}
@@ -1,10 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import ReactPlayer from 'react-player/youtube';
 import { throttle } from 'lodash';
 import { motion } from 'framer-motion';
 import styled from 'styled-components';
-import { OnSettingsChange, Settings } from '../types/hopalong';
+import MusicPlayer from '../music/player';
+import RemoteClient from '../remote/client';
+import FlightSync from '../sync/flightSync';
+import { AudioInputKind, GamepadProfiles, OnSettingsChange, Settings } from '../types/hopalong';
+import { useMusicState } from '../util/hooks';
 import Menu from './Menu';
+import { MidiPanelProps } from './MidiPanel';
 import Toolbar from './Toolbar';
 import WebGLStats from './WebGLStats';
 
@@ -14,9 +18,47 @@ type PropsType = {
   onCenter: () => unknown;
   onSettingsChange: OnSettingsChange<Settings>;
   onReset: () => unknown;
+  onExportImage: () => unknown;
+  onNextOrbit: () => unknown;
+  onToggleRecording: () => unknown;
+  onStartAudio: (kind: AudioInputKind, file?: File) => Promise<unknown>;
+  onStopAudio: () => unknown;
+  onToggleFlightRecording: () => unknown;
+  onPlayFlight: (file: File) => Promise<unknown>;
+  onStopFlightPlayback: () => unknown;
+  music: MusicPlayer;
+  remote: RemoteClient;
+  sync: FlightSync;
+  gamepadProfiles: GamepadProfiles;
+  onGamepadProfilesChange: (profiles: GamepadProfiles) => unknown;
+  flightGamepad: number | null;
+  onFlightGamepadChange: (index: number | null) => unknown;
+  midiProps: MidiPanelProps;
 };
 
-export default function App({ stats, settings, onSettingsChange, onCenter, onReset }: PropsType) {
+export default function App({
+  stats,
+  settings,
+  onSettingsChange,
+  onCenter,
+  onReset,
+  onExportImage,
+  onNextOrbit,
+  onToggleRecording,
+  onStartAudio,
+  onStopAudio,
+  onToggleFlightRecording,
+  onPlayFlight,
+  onStopFlightPlayback,
+  music,
+  remote,
+  sync,
+  gamepadProfiles,
+  onGamepadProfilesChange,
+  flightGamepad,
+  onFlightGamepadChange,
+  midiProps,
+}: PropsType) {
   const [toolbarVisible, updateToolbarVisible] = useState(true);
   const [menuOpen, updateMenuOpen] = useState(false);
   const [statsOpen, updateStatsOpen] = useState(false);
@@ -39,7 +81,17 @@ export default function App({ stats, settings, onSettingsChange, onCenter, onRes
     setToolbarTimeout();
   });
 
-  const { mouseLocked, isPlaying, ...menuSettings } = settings;
+  const {
+    mouseLocked,
+    isPlaying,
+    recording,
+    audioInput,
+    flightInput,
+    captureError,
+    ...menuSettings
+  } = settings;
+  const { playlist } = useMusicState(music);
+  const nowPlaying = playlist.tracks.find(({ id }) => id === playlist.current);
 
   const toolbar = (
     <Toolbar
@@ -47,19 +99,24 @@ export default function App({ stats, settings, onSettingsChange, onCenter, onRes
       statsOpen={statsOpen}
       mouseLocked={mouseLocked}
       isPlaying={isPlaying}
+      recording={recording}
+      captureError={captureError}
+      nowPlaying={nowPlaying?.title ?? null}
+      hasTracks={playlist.tracks.length > 0}
       updateMenuOpen={() => updateMenuOpen(invertCurrent)}
       updateStatsOpen={() => updateStatsOpen(invertCurrent)}
       updateMouseLocked={() => onSettingsChange({ mouseLocked: !mouseLocked })}
       updateIsPlaying={() => onSettingsChange({ isPlaying: !isPlaying })}
       onCenter={onCenter}
+      onExportImage={onExportImage}
+      onToggleRecording={onToggleRecording}
+      onPreviousTrack={music.previous}
+      onNextTrack={music.next}
     />
   );
 
   return (
     <>
-      <PlayerWrap>
-        <ReactPlayer url="https://www.youtube.com/watch?v=tKi9Z-f6qX4" playing={isPlaying} />
-      </PlayerWrap>
       <motion.div
         animate={{
           opacity: toolbarVisible ? 1 : 0,
@@ -70,7 +127,32 @@ export default function App({ stats, settings, onSettingsChange, onCenter, onRes
       {menuOpen && (
         <MenuBg open={menuOpen}>
           {toolbar}
-          <Menu settingsProps={{ settings: menuSettings, onChange: onSettingsChange, onReset }} />
+          <Menu
+            music={music}
+            controllerProps={{
+              profiles: gamepadProfiles,
+              flightGamepad,
+              onChange: onGamepadProfilesChange,
+              onFlightGamepadChange,
+            }}
+            midiProps={midiProps}
+            settingsProps={{
+              settings: menuSettings,
+              audioInput,
+              flightInput,
+              onChange: onSettingsChange,
+              onReset,
+              onExportImage,
+              onNextOrbit,
+              onStartAudio,
+              onStopAudio,
+              onToggleFlightRecording,
+              onPlayFlight,
+              onStopFlightPlayback,
+              remote,
+              sync,
+            }}
+          />
         </MenuBg>
       )}
       <StatsBg open={statsOpen}>
@@ -108,9 +190,3 @@ const StatsBg = styled.div<{ open: boolean }>`
   right: 4px;
   background-color: rgba(0, 0, 0, 0.5);
 `;
-const PlayerWrap = styled.div`
-  width: 1px;
-  height: 1px;
-  opacity: 0;
-  pointer-events: none;
-`;
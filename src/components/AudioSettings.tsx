@@ -0,0 +1,157 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { AudioMapping } from '../audio/mapping';
+import { UnstyledUl } from '../styles/mixins';
+import { AudioBeatAction, AudioInputKind } from '../types/hopalong';
+import { Button } from './common/Button';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+type PropsType = {
+  mapping: AudioMapping;
+  audioInput: AudioInputKind | null;
+  onChange: (mapping: Partial<AudioMapping>) => unknown;
+  onStartAudio: (kind: AudioInputKind, file?: File) => Promise<unknown>;
+  onStopAudio: () => unknown;
+};
+
+const NORMALISE_PERCENT = 100;
+
+const beatActionOptions: { value: AudioBeatAction; label: string }[] = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'nextOrbit', label: 'Next orbit' },
+  { value: 'hueShift', label: 'Shift colours' },
+];
+
+export default function AudioSettings({
+  mapping,
+  audioInput,
+  onChange,
+  onStartAudio,
+  onStopAudio,
+}: PropsType) {
+  const [error, updateError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const start = async (kind: AudioInputKind, file?: File) => {
+    try {
+      await onStartAudio(kind, file);
+      updateError(null);
+    } catch (err) {
+      updateError(err instanceof Error ? err.message : 'Unable to open the audio input.');
+    }
+  };
+  const openFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (file) {
+      start('file', file);
+    }
+    input.value = '';
+  };
+
+  return (
+    <SettingsList>
+      <Hint>
+        The flight reacts to the microphone or to an audio file played from here, rather than the
+        music playlist
+      </Hint>
+      <ListItem>
+        <Row>
+          <RowButton onClick={() => start('microphone')}>Use microphone</RowButton>
+          <RowButton onClick={() => fileInput.current?.click()}>Play file</RowButton>
+          <HiddenInput ref={fileInput} type="file" accept="audio/*" onChange={openFile} />
+        </Row>
+      </ListItem>
+      {audioInput && (
+        <ListItem>
+          <Button fullWidth onClick={onStopAudio}>
+            Stop {audioInput === 'microphone' ? 'microphone' : 'audio file'}
+          </Button>
+        </ListItem>
+      )}
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      <ListItem title="How much the bass speeds up the flight">
+        <Slider
+          min={0}
+          max={300}
+          label="Bass to speed (%)"
+          value={Math.round(mapping.audioSpeedAmount * NORMALISE_PERCENT)}
+          onChange={(amount) =>
+            onChange({
+              audioSpeedAmount: amount / NORMALISE_PERCENT,
+            })
+          }
+        />
+      </ListItem>
+      <ListItem title="How much the mids speed up the rotation">
+        <Slider
+          min={0}
+          max={200}
+          label="Mids to rotation (%)"
+          value={Math.round(mapping.audioRotationAmount * NORMALISE_PERCENT)}
+          onChange={(amount) =>
+            onChange({
+              audioRotationAmount: amount / NORMALISE_PERCENT,
+            })
+          }
+        />
+      </ListItem>
+      <ListItem>
+        <Select
+          label="On every beat"
+          value={mapping.audioBeatAction}
+          options={beatActionOptions}
+          onChange={(audioBeatAction) =>
+            onChange({
+              audioBeatAction,
+            })
+          }
+        />
+      </ListItem>
+      <ListItem title="How far the bass has to rise above its average to count as a beat">
+        <Slider
+          min={110}
+          max={400}
+          label="Beat threshold (%)"
+          value={Math.round(mapping.audioSensitivity * NORMALISE_PERCENT)}
+          onChange={(threshold) =>
+            onChange({
+              audioSensitivity: threshold / NORMALISE_PERCENT,
+            })
+          }
+        />
+      </ListItem>
+    </SettingsList>
+  );
+}
+const SettingsList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const ListItem = styled.li``;
+const Hint = styled.li`
+  text-align: center;
+  font-weight: normal;
+`;
+const Row = styled.div`
+  display: flex;
+`;
+const RowButton = styled(Button)`
+  flex: 1 1 0;
+
+  & + & {
+    margin-left: 8px;
+  }
+`;
+const HiddenInput = styled.input`
+  display: none;
+`;
+const ErrorMessage = styled.li`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -0,0 +1,399 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { ACTION_NAMES } from '../actions';
+import {
+  GAMEPAD_MOVEMENT_ACTIONS,
+  GAMEPAD_TRIGGER_ACTIONS,
+  GamepadState,
+  copyGamepadState,
+  createGamepadProfile,
+  detectGamepadInput,
+} from '../gamepad';
+import { UnstyledUl } from '../styles/mixins';
+import { classes } from '../styles/utils';
+import {
+  GamepadAction,
+  GamepadBinding,
+  GamepadInput,
+  GamepadProfile,
+  GamepadProfiles,
+} from '../types/hopalong';
+import { Button } from './common/Button';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+export type ControllerPanelProps = {
+  profiles: GamepadProfiles;
+  /** Index of the gamepad that controls the flight, every gamepad does when null */
+  flightGamepad: number | null;
+  onChange: (profiles: GamepadProfiles) => unknown;
+  onFlightGamepadChange: (index: number | null) => unknown;
+};
+type ConnectedGamepad = {
+  index: number;
+  id: string;
+  state: GamepadState;
+};
+type Direction = keyof GamepadBinding;
+type Listening = {
+  action: GamepadAction;
+  direction: Direction;
+  baseline: GamepadState;
+};
+
+const NORMALISE_PERCENT = 100;
+
+const ACTION_LABELS: { [action in GamepadAction]: string } = {
+  speed: 'Speed',
+  rotation: 'Rotation',
+  transverseX: 'Move sideways',
+  transverseY: 'Move up and down',
+  fov: 'Field of view',
+  ...ACTION_NAMES,
+};
+
+function readGamepads(): ConnectedGamepad[] {
+  const gamepads = navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+  return gamepads
+    .filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected)
+    .map((gamepad) => ({ index: gamepad.index, id: gamepad.id, state: copyGamepadState(gamepad) }));
+}
+
+function inputToValue(input: GamepadInput | null) {
+  if (!input) {
+    return 'none';
+  }
+  if (input.type === 'button') {
+    return `button:${input.index}`;
+  }
+  return `axis:${input.index}${input.inverted ? ':inverted' : ''}`;
+}
+
+function valueToInput(value: string): GamepadInput | null {
+  const [type, index, inverted] = value.split(':');
+  if (type === 'button') {
+    return { type: 'button', index: Number(index) };
+  }
+  if (type === 'axis') {
+    return { type: 'axis', index: Number(index), inverted: inverted === 'inverted' };
+  }
+  return null;
+}
+
+function inputOptions({ axes, buttons }: GamepadState, current: GamepadInput | null) {
+  const options = [{ value: 'none', label: 'Nothing' }];
+  axes.forEach((_, index) => {
+    options.push({ value: `axis:${index}`, label: `Axis ${index}` });
+    options.push({ value: `axis:${index}:inverted`, label: `Axis ${index} (inverted)` });
+  });
+  buttons.forEach((_, index) =>
+    options.push({ value: `button:${index}`, label: `Button ${index}` })
+  );
+  // Keep bindings to inputs this gamepad doesn't report
+  const value = inputToValue(current);
+  if (!options.some((option) => option.value === value)) {
+    options.push({ value, label: value });
+  }
+  return options;
+}
+
+/**
+ * Shows the live state of the connected gamepads and edits their profiles
+ */
+export default function ControllerPanel({
+  profiles,
+  flightGamepad,
+  onChange,
+  onFlightGamepadChange,
+}: ControllerPanelProps) {
+  const [gamepads, updateGamepads] = useState(readGamepads);
+  const [selectedIndex, updateSelectedIndex] = useState<number | null>(null);
+  const [listening, updateListening] = useState<Listening | null>(null);
+
+  const gamepad =
+    gamepads.find(({ index }) => index === selectedIndex) || (gamepads.length ? gamepads[0] : null);
+  const profile = gamepad ? profiles[gamepad.id] : undefined;
+
+  const saveProfile = (newProfile: GamepadProfile) =>
+    onChange({ ...profiles, [newProfile.id]: newProfile });
+  const deleteProfile = (id: string) => {
+    const remaining = { ...profiles };
+    delete remaining[id];
+    onChange(remaining);
+  };
+  const bind = (action: GamepadAction, direction: Direction, input: GamepadInput | null) => {
+    if (profile) {
+      const bindings = {
+        ...profile.bindings,
+        [action]: { ...profile.bindings[action], [direction]: input },
+      };
+      saveProfile({ ...profile, bindings });
+    }
+  };
+
+  // The poll reads the latest state through refs, rather than restarting on every change
+  const listeningRef = useRef(listening);
+  listeningRef.current = listening;
+  const bindRef = useRef(bind);
+  bindRef.current = bind;
+  const gamepadIndexRef = useRef(gamepad?.index);
+  gamepadIndexRef.current = gamepad?.index;
+
+  useEffect(() => {
+    let frame: number;
+    const poll = () => {
+      const current = readGamepads();
+      updateGamepads(current);
+      const currentListening = listeningRef.current;
+      const polled = current.find(({ index }) => index === gamepadIndexRef.current);
+      if (currentListening && polled) {
+        const input = detectGamepadInput(currentListening.baseline, polled.state);
+        if (input) {
+          bindRef.current(currentListening.action, currentListening.direction, input);
+          updateListening(null);
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  if (!gamepad) {
+    return (
+      <Root>
+        <Hint>Connect a gamepad and press one of its buttons</Hint>
+      </Root>
+    );
+  }
+
+  const listen = (action: GamepadAction, direction: Direction) =>
+    updateListening({ action, direction, baseline: gamepad.state });
+
+  const renderInput = (action: GamepadAction, direction: Direction, label: string) => {
+    if (!profile) {
+      return null;
+    }
+    const input = profile.bindings[action][direction];
+    const isListening = listening?.action === action && listening.direction === direction;
+    return (
+      <Row>
+        <WideSelect>
+          <Select
+            label={label}
+            value={inputToValue(input)}
+            options={inputOptions(gamepad.state, input)}
+            onChange={(value) => bind(action, direction, valueToInput(value))}
+          />
+        </WideSelect>
+        <SmallButton
+          className={classes({ active: isListening })}
+          title="Binds the next button pressed or axis moved"
+          onClick={() => (isListening ? updateListening(null) : listen(action, direction))}
+        >
+          {isListening ? 'Cancel' : 'Detect'}
+        </SmallButton>
+      </Row>
+    );
+  };
+
+  return (
+    <Root>
+      {gamepads.length > 1 && (
+        <>
+          <Select
+            label="Flight controlled by"
+            value={flightGamepad === null ? 'all' : String(flightGamepad)}
+            options={[
+              { value: 'all', label: 'All gamepads together' },
+              ...gamepads.map(({ index, id }) => ({
+                value: String(index),
+                label: `${index + 1}: ${id}`,
+              })),
+            ]}
+            onChange={(value) => onFlightGamepadChange(value === 'all' ? null : Number(value))}
+          />
+          <Select
+            label="Configure"
+            value={String(gamepad.index)}
+            options={gamepads.map(({ index, id }) => ({
+              value: String(index),
+              label: `${index + 1}: ${id}`,
+            }))}
+            onChange={(index) => updateSelectedIndex(Number(index))}
+          />
+        </>
+      )}
+      <GamepadId>{gamepad.id}</GamepadId>
+      <Section>
+        <h3>Axes</h3>
+        <AxisList>
+          {gamepad.state.axes.map((value, index) => (
+            <AxisRow as="li" key={index}>
+              <AxisLabel>{index}</AxisLabel>
+              <AxisTrack>
+                <AxisBar
+                  style={{
+                    left: `${50 + Math.min(value, 0) * 50}%`,
+                    width: `${Math.abs(value) * 50}%`,
+                  }}
+                />
+              </AxisTrack>
+              <AxisValue>{value.toFixed(2)}</AxisValue>
+            </AxisRow>
+          ))}
+        </AxisList>
+        <h3>Buttons</h3>
+        <ButtonList>
+          {gamepad.state.buttons.map(({ pressed }, index) => (
+            <ButtonState key={index} className={classes({ active: pressed })}>
+              {index}
+            </ButtonState>
+          ))}
+        </ButtonList>
+      </Section>
+      {profile ? (
+        <>
+          {GAMEPAD_MOVEMENT_ACTIONS.map((action) => (
+            <Section key={action}>
+              <h3>{ACTION_LABELS[action]}</h3>
+              {renderInput(action, 'positive', 'Increased by')}
+              {renderInput(action, 'negative', 'Decreased by')}
+            </Section>
+          ))}
+          <Section>
+            <h3>Actions</h3>
+            {GAMEPAD_TRIGGER_ACTIONS.map((action) => (
+              <React.Fragment key={action}>
+                {renderInput(action, 'positive', ACTION_LABELS[action])}
+              </React.Fragment>
+            ))}
+          </Section>
+          <Slider
+            min={0}
+            max={90}
+            label="Deadzone (%)"
+            value={Math.round(profile.deadzone * NORMALISE_PERCENT)}
+            onChange={(deadzone) =>
+              saveProfile({
+                ...profile,
+                deadzone: Math.min(Math.max(deadzone, 0), 90) / NORMALISE_PERCENT,
+              })
+            }
+          />
+          <Slider
+            min={50}
+            max={400}
+            label="Response curve (%)"
+            value={Math.round(profile.curve * NORMALISE_PERCENT)}
+            onChange={(curve) =>
+              saveProfile({
+                ...profile,
+                curve: Math.max(curve, 10) / NORMALISE_PERCENT,
+              })
+            }
+          />
+          <Hint>A curve above 100% gives finer control near the centre of the sticks</Hint>
+          <Button fullWidth onClick={() => deleteProfile(profile.id)}>
+            Use the built in controls
+          </Button>
+        </>
+      ) : (
+        <>
+          <Hint>This gamepad uses the built in controls</Hint>
+          <Button fullWidth onClick={() => saveProfile(createGamepadProfile(gamepad.id))}>
+            Customise controls
+          </Button>
+        </>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 480px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const Hint = styled.p`
+  text-align: center;
+  font-weight: normal;
+`;
+const GamepadId = styled.p`
+  text-align: center;
+  word-break: break-word;
+`;
+const Section = styled.section`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+
+  & > h3 {
+    font-size: 16px;
+  }
+`;
+const AxisList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 4px;
+`;
+const AxisRow = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const AxisLabel = styled.span`
+  width: 24px;
+`;
+const AxisTrack = styled.div`
+  position: relative;
+  flex: 1 1 auto;
+  height: 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const AxisBar = styled.div`
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  background-color: white;
+`;
+const AxisValue = styled.span`
+  width: 48px;
+  text-align: right;
+  font-variant-numeric: tabular-nums;
+`;
+const ButtonList = styled(UnstyledUl)`
+  display: flex;
+  flex-wrap: wrap;
+`;
+const ButtonState = styled.li`
+  width: 28px;
+  height: 28px;
+  margin: 0 4px 4px 0;
+  line-height: 26px;
+  text-align: center;
+  border: 1px solid white;
+  border-radius: 50%;
+
+  &.active {
+    background-color: white;
+    color: black;
+  }
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: flex-end;
+`;
+const WideSelect = styled.div`
+  flex: 1 1 auto;
+  min-width: 0;
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+  font-size: 14px;
+`;
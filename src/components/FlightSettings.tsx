@@ -0,0 +1,124 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { SmoothingSettings } from '../input/smoothing';
+import { UnstyledUl } from '../styles/mixins';
+import { Settings } from '../types/hopalong';
+import { Button } from './common/Button';
+import Slider from './common/Slider';
+
+type PropsType = {
+  smoothing: SmoothingSettings;
+  flightInput: Settings['flightInput'];
+  onChange: (smoothing: Partial<SmoothingSettings>) => unknown;
+  onToggleFlightRecording: () => unknown;
+  onPlayFlight: (file: File) => Promise<unknown>;
+  onStopFlightPlayback: () => unknown;
+};
+
+const NORMALISE_SMOOTHING = 100;
+
+export default function FlightSettings({
+  smoothing,
+  flightInput,
+  onChange,
+  onToggleFlightRecording,
+  onPlayFlight,
+  onStopFlightPlayback,
+}: PropsType) {
+  const [error, updateError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const playFlight = async (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      await onPlayFlight(file);
+      updateError(null);
+    } catch (err) {
+      updateError(err instanceof Error ? err.message : 'Unable to play the flight recording.');
+    }
+  };
+
+  return (
+    <SettingsList>
+      <ListItem title="Smooths gamepad and other controller input">
+        <Slider
+          min={0}
+          max={200}
+          label="Input smoothing (hundredths of a second)"
+          value={Math.round(smoothing.inputSmoothing * NORMALISE_SMOOTHING)}
+          onChange={(inputSmoothing) =>
+            onChange({
+              inputSmoothing: Math.max(inputSmoothing, 0) / NORMALISE_SMOOTHING,
+            })
+          }
+        />
+      </ListItem>
+      <ListItem title="Limits how quickly controllers change the speed, 0 for no limit">
+        <Slider
+          min={0}
+          max={2000}
+          label="Maximum acceleration"
+          value={smoothing.inputMaxAcceleration}
+          onChange={(inputMaxAcceleration) =>
+            onChange({
+              inputMaxAcceleration: Math.max(inputMaxAcceleration, 0),
+            })
+          }
+        />
+      </ListItem>
+      <Hint>Recorded flights save the settings and every movement, to fly them again later</Hint>
+      <ListItem>
+        <Button fullWidth disabled={flightInput === 'playback'} onClick={onToggleFlightRecording}>
+          {flightInput === 'recording' ? 'Stop and save flight' : 'Record flight'}
+        </Button>
+      </ListItem>
+      <ListItem>
+        {flightInput === 'playback' ? (
+          <Button fullWidth onClick={onStopFlightPlayback}>
+            Stop flight
+          </Button>
+        ) : (
+          <Button
+            fullWidth
+            disabled={flightInput === 'recording'}
+            onClick={() => fileInput.current?.click()}
+          >
+            Play recorded flight
+          </Button>
+        )}
+        <HiddenInput
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={playFlight}
+        />
+      </ListItem>
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </SettingsList>
+  );
+}
+const SettingsList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const ListItem = styled.li``;
+const Hint = styled.li`
+  text-align: center;
+  font-weight: normal;
+`;
+const HiddenInput = styled.input`
+  display: none;
+`;
+const ErrorMessage = styled.li`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -25,6 +25,9 @@ export default function InfoPanel() {
             <Gap />
             <Code>[F11]</Code> Toggle fullscreen
           </li>
+          <li>
+            <Code>[I]</Code> Save image
+          </li>
         </KeyboardList>
         <Heading3>Simulation</Heading3>
         <KeyboardList>
@@ -38,6 +41,11 @@ export default function InfoPanel() {
             <Gap />
             <Code>[O/P]</Code> Change particle count
           </li>
+          <li>
+            <Code>[N]</Code> Next orbit
+            <Gap />
+            <Code>[M]</Code> Change when new orbits are generated
+          </li>
           <li>
             <Code>[R]</Code> Reset all settings
           </li>
@@ -50,10 +58,12 @@ export default function InfoPanel() {
         <br />
         <p>These orbits are generated iterating this simple formula:</p>
         <p>
-          <CodeRow>(x, y) -&gt; (y - sign(x)*sqrt(abs(b*x - c)), a -x )</CodeRow>
+          <CodeRow>(x, y) -&gt; (y - sign(x)*(d + sqrt(abs(b*x - c))) + e, a - x)</CodeRow>
         </p>
         <p>
-          where a, b, c are random parameters. This is known as the &apos;Hopalong Attractor&apos;.
+          where a, b, c, d, e are random parameters. With d = e = 0 this is Barry Martin&apos;s
+          original three parameter formula, known as the &apos;Hopalong Attractor&apos;. Both forms,
+          along with other attractors, can be picked in the settings.
         </p>
         <br />
         <p>
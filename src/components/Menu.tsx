@@ -2,19 +2,29 @@ import React, { useState } from 'react';
 import styled from 'styled-components';
 import { UnstyledButton } from '../styles/mixins';
 import { classes } from '../styles/utils';
+import MusicPlayer from '../music/player';
+import ControllerPanel, { ControllerPanelProps } from './ControllerPanel';
 import InfoPanel from './InfoPanel';
+import MidiPanel, { MidiPanelProps } from './MidiPanel';
+import MusicPanel from './MusicPanel';
 import SettingsPanel, { SettingsPanelProps } from './SettingsPanel';
 
 enum Tabs {
   SETTINGS = 'Settings',
+  MUSIC = 'Music',
+  CONTROLLER = 'Controller',
+  MIDI = 'MIDI',
   ABOUT = 'About',
 }
 type PropsType = {
   settingsProps: SettingsPanelProps;
+  music: MusicPlayer;
+  controllerProps: ControllerPanelProps;
+  midiProps: MidiPanelProps;
 };
 
-export default function Menu({ settingsProps }: PropsType) {
-  const tabs = [Tabs.SETTINGS, Tabs.ABOUT];
+export default function Menu({ settingsProps, music, controllerProps, midiProps }: PropsType) {
+  const tabs = [Tabs.SETTINGS, Tabs.MUSIC, Tabs.CONTROLLER, Tabs.MIDI, Tabs.ABOUT];
   const [currentTab, updateCurrentTab] = useState(Tabs.SETTINGS);
 
   let content;
@@ -22,6 +32,15 @@ export default function Menu({ settingsProps }: PropsType) {
     case Tabs.ABOUT:
       content = <InfoPanel />;
       break;
+    case Tabs.MUSIC:
+      content = <MusicPanel music={music} />;
+      break;
+    case Tabs.CONTROLLER:
+      content = <ControllerPanel {...controllerProps} />;
+      break;
+    case Tabs.MIDI:
+      content = <MidiPanel {...midiProps} />;
+      break;
     case Tabs.SETTINGS:
       content = <SettingsPanel {...settingsProps} />;
       break;
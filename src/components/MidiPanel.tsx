@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { ACTION_NAMES, HOPALONG_ACTIONS } from '../actions';
+import { MIDI_PARAMS, MIDI_SETTINGS, describeMidiControl, isSameTarget } from '../midi/bindings';
+import { PALETTES, PALETTE_NAMES } from '../palettes';
+import { classes } from '../styles/utils';
+import { MidiBinding, MidiSetting, MidiTarget } from '../types/hopalong';
+import { Button } from './common/Button';
+
+export type MidiPanelProps = {
+  connected: boolean;
+  /** Names of the connected MIDI inputs */
+  inputs: string[];
+  bindings: MidiBinding[];
+  /** Target the next control that is moved or pressed is bound to */
+  learning: MidiTarget | null;
+  onConnect: () => Promise<unknown>;
+  onLearn: (target: MidiTarget | null) => unknown;
+  onClear: (target: MidiTarget) => unknown;
+};
+
+const SETTING_LABELS: { [setting in MidiSetting]: string } = {
+  speed: 'Speed',
+  rotationSpeed: 'Rotation speed',
+  cameraFov: 'Camera FOV',
+  levelCount: 'Levels',
+  subsetCount: 'Subsets',
+};
+
+const valueTargets: { target: MidiTarget; label: string }[] = [
+  ...MIDI_SETTINGS.map((setting) => ({
+    target: { type: 'setting', setting } as MidiTarget,
+    label: SETTING_LABELS[setting],
+  })),
+  ...MIDI_PARAMS.map((param) => ({
+    target: { type: 'param', param } as MidiTarget,
+    label: `Parameter ${param}`,
+  })),
+];
+const noteTargets: { target: MidiTarget; label: string }[] = [
+  ...HOPALONG_ACTIONS.map((action) => ({
+    target: { type: 'action', action } as MidiTarget,
+    label: ACTION_NAMES[action],
+  })),
+  ...PALETTE_NAMES.map((palette) => ({
+    target: { type: 'palette', palette } as MidiTarget,
+    label: `${PALETTES[palette].name} palette`,
+  })),
+];
+
+/**
+ * Connects MIDI controllers and binds their knobs, faders and notes
+ */
+export default function MidiPanel({
+  connected,
+  inputs,
+  bindings,
+  learning,
+  onConnect,
+  onLearn,
+  onClear,
+}: MidiPanelProps) {
+  const [error, updateError] = useState<string | null>(null);
+
+  const connect = async () => {
+    try {
+      await onConnect();
+      updateError(null);
+    } catch (err) {
+      updateError(err instanceof Error ? err.message : 'Unable to access MIDI devices.');
+    }
+  };
+
+  if (!connected) {
+    return (
+      <Root>
+        <Hint>Knobs and faders can set values, notes trigger actions and switch palettes</Hint>
+        <Button fullWidth onClick={connect}>
+          Connect MIDI devices
+        </Button>
+        {error && <ErrorMessage>{error}</ErrorMessage>}
+      </Root>
+    );
+  }
+
+  const renderTarget = ({ target, label }: { target: MidiTarget; label: string }) => {
+    const binding = bindings.find((current) => isSameTarget(current.target, target));
+    const isLearning = !!learning && isSameTarget(learning, target);
+    return (
+      <Row key={JSON.stringify(target)}>
+        <TargetLabel>{label}</TargetLabel>
+        <ControlLabel>
+          {isLearning ? 'Waiting…' : binding ? describeMidiControl(binding.control) : 'Not bound'}
+        </ControlLabel>
+        <SmallButton
+          className={classes({ active: isLearning })}
+          title="Binds the next knob or fader moved, or note played"
+          onClick={() => onLearn(isLearning ? null : target)}
+        >
+          {isLearning ? 'Cancel' : 'Learn'}
+        </SmallButton>
+        <SmallButton disabled={!binding} onClick={() => onClear(target)}>
+          Clear
+        </SmallButton>
+      </Row>
+    );
+  };
+
+  return (
+    <Root>
+      <Hint>{inputs.length > 0 ? inputs.join(', ') : 'No MIDI inputs are connected'}</Hint>
+      <Section>
+        <h3>Knobs and faders</h3>
+        {valueTargets.map(renderTarget)}
+      </Section>
+      <Section>
+        <h3>Notes</h3>
+        {noteTargets.map(renderTarget)}
+      </Section>
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 480px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const Hint = styled.p`
+  text-align: center;
+  font-weight: normal;
+`;
+const Section = styled.section`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+
+  & > h3 {
+    font-size: 16px;
+  }
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const TargetLabel = styled.span`
+  flex: 1 1 auto;
+  min-width: 0;
+`;
+const ControlLabel = styled.span`
+  font-weight: normal;
+  white-space: nowrap;
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+  font-size: 14px;
+`;
+const ErrorMessage = styled.p`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -0,0 +1,212 @@
+import React, { ChangeEvent, DragEvent, useRef, useState } from 'react';
+import styled from 'styled-components';
+import MusicPlayer from '../music/player';
+import { REPEAT_MODES } from '../music/playlist';
+import { UnstyledUl } from '../styles/mixins';
+import { RepeatMode } from '../types/hopalong';
+import { classes } from '../styles/utils';
+import { useMusicState } from '../util/hooks';
+import { Button } from './common/Button';
+import Checkbox from './common/Checkbox';
+import Input from './common/Input';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+type PropsType = {
+  music: MusicPlayer;
+};
+
+const NORMALISE_VOLUME = 100;
+
+const repeatOptions: { value: RepeatMode; label: string }[] = REPEAT_MODES.map((mode) => ({
+  value: mode,
+  label: { off: 'Off', all: 'Whole playlist', one: 'Current track' }[mode],
+}));
+
+export default function MusicPanel({ music }: PropsType) {
+  const { playlist, playing, error } = useMusicState(music);
+  const [url, updateUrl] = useState('');
+  const [urlError, updateUrlError] = useState<string | null>(null);
+  const [dragging, updateDragging] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    if (input.files) {
+      music.addFiles(Array.from(input.files));
+    }
+    input.value = '';
+  };
+  const addUrl = () => {
+    try {
+      music.addUrl(url.trim());
+      updateUrl('');
+      updateUrlError(null);
+    } catch (err) {
+      updateUrlError(err instanceof Error ? err.message : 'Unable to add this URL.');
+    }
+  };
+  const onDragOver = (e: DragEvent) => {
+    e.preventDefault();
+    updateDragging(true);
+  };
+  const onDrop = (e: DragEvent) => {
+    e.preventDefault();
+    updateDragging(false);
+    music.addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <Root>
+      <DropZone
+        className={classes({ active: dragging })}
+        onDragOver={onDragOver}
+        onDragLeave={() => updateDragging(false)}
+        onDrop={onDrop}
+      >
+        <p>Drop audio files here, or</p>
+        <Button onClick={() => fileInput.current?.click()}>Choose files</Button>
+        <HiddenInput ref={fileInput} type="file" accept="audio/*" multiple onChange={addFiles} />
+      </DropZone>
+      <Row>
+        <WideInput
+          type="url"
+          placeholder="https://example.com/track.mp3"
+          value={url}
+          onChange={(e) => updateUrl(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addUrl()}
+        />
+        <SmallButton disabled={!url.trim()} onClick={addUrl}>
+          Add URL
+        </SmallButton>
+      </Row>
+      {urlError && <ErrorMessage>{urlError}</ErrorMessage>}
+      {playlist.tracks.length > 0 && (
+        <TrackList>
+          {playlist.tracks.map((track, i) => {
+            const isCurrent = track.id === playlist.current;
+            return (
+              <Row as="li" key={track.id}>
+                <TrackTitle
+                  className={classes({ active: isCurrent })}
+                  title={track.source.type === 'url' ? track.source.url : track.title}
+                >
+                  {track.title}
+                </TrackTitle>
+                <SmallButton
+                  onClick={() => (isCurrent && playing ? music.pause() : music.play(track.id))}
+                >
+                  {isCurrent && playing ? 'Pause' : 'Play'}
+                </SmallButton>
+                <SmallButton disabled={i === 0} onClick={() => music.move(track.id, -1)}>
+                  Up
+                </SmallButton>
+                <SmallButton
+                  disabled={i === playlist.tracks.length - 1}
+                  onClick={() => music.move(track.id, 1)}
+                >
+                  Down
+                </SmallButton>
+                <SmallButton onClick={() => music.remove(track.id)}>Remove</SmallButton>
+              </Row>
+            );
+          })}
+        </TrackList>
+      )}
+      <Row>
+        <Button fullWidth disabled={playlist.tracks.length === 0} onClick={music.previous}>
+          Previous
+        </Button>
+        <SmallButton
+          fullWidth
+          disabled={playlist.tracks.length === 0}
+          onClick={() => music.setPlaying(!playing)}
+        >
+          {playing ? 'Pause' : 'Play'}
+        </SmallButton>
+        <SmallButton fullWidth disabled={playlist.tracks.length === 0} onClick={music.next}>
+          Next
+        </SmallButton>
+      </Row>
+      <Checkbox checked={playlist.shuffle} onChange={music.setShuffle} label="Shuffle" />
+      <Select
+        label="Repeat"
+        value={playlist.repeat}
+        options={repeatOptions}
+        onChange={music.setRepeat}
+      />
+      <Slider
+        min={0}
+        max={100}
+        label="Volume (%)"
+        value={Math.round(playlist.volume * NORMALISE_VOLUME)}
+        onChange={(volume) =>
+          music.setVolume(Math.min(Math.max(volume, 0), 100) / NORMALISE_VOLUME)
+        }
+      />
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </Root>
+  );
+}
+const Root = styled.div`
+  width: 100%;
+  max-width: 480px;
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const DropZone = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  padding: 16px;
+  border: 2px dashed white;
+  border-radius: 4px;
+  font-weight: normal;
+
+  & > p {
+    margin-bottom: 8px;
+  }
+
+  &.active {
+    background-color: rgba(255, 255, 255, 0.2);
+  }
+`;
+const TrackList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const WideInput = styled(Input)`
+  flex: 1 1 auto;
+  min-width: 0;
+  padding: 4px;
+`;
+const TrackTitle = styled.span`
+  flex: 1 1 auto;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-size: 16px;
+  font-weight: normal;
+
+  &.active {
+    font-weight: bold;
+  }
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+  font-size: 14px;
+`;
+const HiddenInput = styled.input`
+  display: none;
+`;
+const ErrorMessage = styled.p`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -0,0 +1,102 @@
+import React from 'react';
+import styled from 'styled-components';
+import { OrbitParams } from '../types/hopalong';
+import { parseSeed, randomSeed } from '../util/random';
+import { useId } from '../util/hooks';
+import { Button } from './common/Button';
+import NumberInput from './common/NumberInput';
+
+type PropsType = {
+  seed: number;
+  orbitParams: OrbitParams<number>;
+  pinnedParams: Partial<OrbitParams<number>>;
+  onChange: (settings: { seed?: number; pinnedParams?: Partial<OrbitParams<number>> }) => unknown;
+};
+type ParamName = keyof OrbitParams<number>;
+const PARAM_NAMES: ParamName[] = ['a', 'b', 'c', 'd', 'e'];
+
+export default function OrbitSettings({ seed, orbitParams, pinnedParams, onChange }: PropsType) {
+  const seedId = useId();
+
+  const parseParam = (value: string) => {
+    const param = parseFloat(value);
+    return isNaN(param) ? undefined : param;
+  };
+  const pinParam = (name: ParamName, value: number) =>
+    onChange({ pinnedParams: { ...pinnedParams, [name]: value } });
+  const unpinParam = (name: ParamName) => {
+    const rest = { ...pinnedParams };
+    delete rest[name];
+    onChange({ pinnedParams: rest });
+  };
+
+  return (
+    <Root>
+      <Row>
+        <Label htmlFor={seedId}>Seed</Label>
+        <WideInput
+          id={seedId}
+          value={seed}
+          parse={parseSeed}
+          onChange={(s) => onChange({ seed: s })}
+        />
+        <SmallButton onClick={() => onChange({ seed: randomSeed() })}>New</SmallButton>
+      </Row>
+      <Hint>Pinned parameters are kept when new orbits are generated</Hint>
+      <ParamList>
+        {PARAM_NAMES.map((name) => {
+          const pinned = typeof pinnedParams[name] !== 'undefined';
+          return (
+            <Row key={name}>
+              <Label>{name}</Label>
+              <WideInput
+                value={pinnedParams[name] ?? orbitParams[name]}
+                parse={parseParam}
+                onChange={(value) => pinParam(name, value)}
+              />
+              <SmallButton
+                className={pinned ? 'active' : ''}
+                title={pinned ? 'Unpin parameter' : 'Pin parameter'}
+                onClick={() => (pinned ? unpinParam(name) : pinParam(name, orbitParams[name]))}
+              >
+                Pin
+              </SmallButton>
+            </Row>
+          );
+        })}
+      </ParamList>
+    </Root>
+  );
+}
+const Root = styled.div`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const ParamList = styled.div`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const Label = styled.label`
+  width: 48px;
+  color: white;
+  font-size: 18px;
+`;
+const WideInput = styled(NumberInput)`
+  flex: 1 1 auto;
+  min-width: 0;
+  padding: 4px;
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+`;
+const Hint = styled.p`
+  text-align: center;
+  font-weight: normal;
+`;
@@ -0,0 +1,89 @@
+import React from 'react';
+import styled from 'styled-components';
+import { MAX_PALETTE_STOPS, MIN_PALETTE_STOPS, PALETTES, PALETTE_NAMES } from '../palettes';
+import { PaletteName } from '../types/hopalong';
+import { Button } from './common/Button';
+import Input from './common/Input';
+import Select from './common/Select';
+
+type PropsType = {
+  palette: PaletteName;
+  paletteStops: string[];
+  onChange: (settings: { palette?: PaletteName; paletteStops?: string[] }) => unknown;
+};
+
+export default function PaletteSettings({ palette, paletteStops, onChange }: PropsType) {
+  const paletteOptions = PALETTE_NAMES.map((name) => ({
+    value: name,
+    label: PALETTES[name].name,
+  }));
+
+  const updateStop = (index: number, stop: string) =>
+    onChange({ paletteStops: paletteStops.map((current, i) => (i === index ? stop : current)) });
+  const removeStop = (index: number) =>
+    onChange({ paletteStops: paletteStops.filter((_, i) => i !== index) });
+  const addStop = () =>
+    onChange({
+      paletteStops: [...paletteStops, paletteStops[paletteStops.length - 1] || '#ffffff'],
+    });
+
+  return (
+    <Root>
+      <Select
+        label="Palette"
+        value={palette}
+        options={paletteOptions}
+        onChange={(name) => onChange({ palette: name })}
+      />
+      {palette === 'custom' && (
+        <>
+          <Hint>Subsets are coloured along the gradient, from the first colour to the last</Hint>
+          {paletteStops.map((stop, i) => (
+            <Row key={i}>
+              <ColorInput
+                type="color"
+                value={stop}
+                title={`Colour ${i + 1}`}
+                onChange={(e) => updateStop(i, e.currentTarget.value)}
+              />
+              <SmallButton
+                disabled={paletteStops.length <= MIN_PALETTE_STOPS}
+                onClick={() => removeStop(i)}
+              >
+                Remove
+              </SmallButton>
+            </Row>
+          ))}
+          {paletteStops.length < MAX_PALETTE_STOPS && (
+            <Button fullWidth onClick={addStop}>
+              Add colour
+            </Button>
+          )}
+        </>
+      )}
+    </Root>
+  );
+}
+const Root = styled.div`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const ColorInput = styled(Input)`
+  flex: 1 1 auto;
+  min-width: 0;
+  height: 32px;
+  padding: 2px;
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+`;
+const Hint = styled.p`
+  text-align: center;
+  font-weight: normal;
+`;
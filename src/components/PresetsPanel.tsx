@@ -0,0 +1,162 @@
+import React, { ChangeEvent, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { UnstyledUl } from '../styles/mixins';
+import { Preset, SimSettings } from '../types/hopalong';
+import { downloadBlob } from '../util/download';
+import {
+  createPreset,
+  exportPresets,
+  importPresets,
+  loadPresets,
+  savePresets,
+} from '../util/storage';
+import { Button } from './common/Button';
+import Input from './common/Input';
+
+type PropsType = {
+  settings: Partial<SimSettings>;
+  onLoad: (settings: Partial<SimSettings>) => unknown;
+};
+export default function PresetsPanel({ settings, onLoad }: PropsType) {
+  const [presets, updatePresets] = useState(loadPresets);
+  const [newName, updateNewName] = useState('');
+  const [renamingId, updateRenamingId] = useState<string | null>(null);
+  const [renameValue, updateRenameValue] = useState('');
+  const [error, updateError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const storePresets = (newPresets: Preset[]) => {
+    updatePresets(newPresets);
+    savePresets(newPresets);
+  };
+
+  const addPreset = () => {
+    const name = newName.trim() || `Preset ${presets.length + 1}`;
+    storePresets([...presets, createPreset(name, settings)]);
+    updateNewName('');
+  };
+  const deletePreset = (id: string) => storePresets(presets.filter((preset) => preset.id !== id));
+  const startRename = ({ id, name }: Preset) => {
+    updateRenamingId(id);
+    updateRenameValue(name);
+  };
+  const finishRename = () => {
+    const name = renameValue.trim();
+    if (name) {
+      storePresets(
+        presets.map((preset) => (preset.id === renamingId ? { ...preset, name } : preset))
+      );
+    }
+    updateRenamingId(null);
+  };
+
+  const doExport = () => downloadBlob(exportPresets(presets), 'hopalong-presets.json');
+  const doImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      storePresets([...presets, ...importPresets(await file.text())]);
+      updateError(null);
+    } catch (err) {
+      updateError(err instanceof Error ? err.message : 'Unable to import presets.');
+    }
+    input.value = '';
+  };
+
+  return (
+    <Root>
+      <Row>
+        <WideInput
+          type="text"
+          placeholder="Preset name"
+          value={newName}
+          onChange={(e) => updateNewName(e.currentTarget.value)}
+        />
+        <SmallButton onClick={addPreset}>Save</SmallButton>
+      </Row>
+      {presets.length > 0 && (
+        <PresetList>
+          {presets.map((preset) => (
+            <Row as="li" key={preset.id}>
+              {renamingId === preset.id ? (
+                <>
+                  <WideInput
+                    type="text"
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => updateRenameValue(e.currentTarget.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && finishRename()}
+                  />
+                  <SmallButton onClick={finishRename}>OK</SmallButton>
+                </>
+              ) : (
+                <>
+                  <PresetName title={preset.name}>{preset.name}</PresetName>
+                  <SmallButton onClick={() => onLoad(preset.settings)}>Load</SmallButton>
+                  <SmallButton onClick={() => startRename(preset)}>Rename</SmallButton>
+                  <SmallButton onClick={() => deletePreset(preset.id)}>Delete</SmallButton>
+                </>
+              )}
+            </Row>
+          ))}
+        </PresetList>
+      )}
+      <Row>
+        <Button fullWidth onClick={() => fileInput.current?.click()}>
+          Import
+        </Button>
+        <SmallButton fullWidth disabled={presets.length === 0} onClick={doExport}>
+          Export
+        </SmallButton>
+        <HiddenInput
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={doImport}
+        />
+      </Row>
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </Root>
+  );
+}
+const Root = styled.div`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+`;
+const PresetList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 8px;
+`;
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+`;
+const WideInput = styled(Input)`
+  flex: 1 1 auto;
+  min-width: 0;
+  padding: 4px;
+`;
+const PresetName = styled.span`
+  flex: 1 1 auto;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-size: 16px;
+`;
+const SmallButton = styled(Button)`
+  margin-left: 8px;
+  padding: 4px 8px;
+  font-size: 14px;
+`;
+const HiddenInput = styled.input`
+  display: none;
+`;
+const ErrorMessage = styled.p`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import RemoteClient from '../remote/client';
+import { UnstyledUl } from '../styles/mixins';
+import { useRemoteState } from '../util/hooks';
+import { Button } from './common/Button';
+import Input from './common/Input';
+
+type PropsType = {
+  remote: RemoteClient;
+};
+
+const STATUS_LABELS = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+};
+
+export default function RemoteSettings({ remote }: PropsType) {
+  const { url, status, error } = useRemoteState(remote);
+  const [editedUrl, updateEditedUrl] = useState<string | null>(null);
+  const currentUrl = editedUrl ?? url;
+
+  const connect = () => {
+    remote.connect(currentUrl.trim());
+    updateEditedUrl(null);
+  };
+
+  return (
+    <SettingsList>
+      <Hint>
+        Run <code>npm run remote</code> on this network, then open the address it prints on a phone
+        to control the flight from it
+      </Hint>
+      <ListItem>
+        <WideInput
+          type="url"
+          placeholder="ws://localhost:8080"
+          value={currentUrl}
+          disabled={status !== 'disconnected'}
+          onChange={(e) => updateEditedUrl(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && connect()}
+        />
+      </ListItem>
+      <ListItem>
+        {status === 'disconnected' ? (
+          <Button fullWidth disabled={!currentUrl.trim()} onClick={connect}>
+            Connect
+          </Button>
+        ) : (
+          <Button fullWidth onClick={remote.disconnect}>
+            Disconnect
+          </Button>
+        )}
+      </ListItem>
+      <Hint>{STATUS_LABELS[status]}</Hint>
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </SettingsList>
+  );
+}
+const SettingsList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const ListItem = styled.li``;
+const Hint = styled.li`
+  text-align: center;
+  font-weight: normal;
+`;
+const WideInput = styled(Input)`
+  box-sizing: border-box;
+  width: 100%;
+  padding: 4px;
+`;
+const ErrorMessage = styled.li`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -1,30 +1,97 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
+import { ATTRACTORS, ATTRACTOR_NAMES } from '../attractors';
+import { EXPORT_RESOLUTIONS } from '../capture';
+import RemoteClient from '../remote/client';
 import { UnstyledUl } from '../styles/mixins';
-import { MenuSettings } from '../types/hopalong';
+import FlightSync from '../sync/flightSync';
+import {
+  AudioInputKind,
+  ExportResolution,
+  MenuSettings,
+  RecordingMode,
+  RegenerationMode,
+  Settings,
+} from '../types/hopalong';
 import { Button } from './common/Button';
+import AudioSettings from './AudioSettings';
 import Checkbox from './common/Checkbox';
 import Dropdown from './common/Dropdown';
+import FlightSettings from './FlightSettings';
+import Select from './common/Select';
 import Slider from './common/Slider';
+import OrbitSettings from './OrbitSettings';
+import PaletteSettings from './PaletteSettings';
+import PresetsPanel from './PresetsPanel';
+import RemoteSettings from './RemoteSettings';
+import SyncSettings from './SyncSettings';
 
 export type SettingsPanelProps = {
   settings: MenuSettings;
+  audioInput: AudioInputKind | null;
+  flightInput: Settings['flightInput'];
   onChange: (settings: Partial<MenuSettings>) => unknown;
   onReset: () => unknown;
+  onExportImage: () => unknown;
+  onNextOrbit: () => unknown;
+  onStartAudio: (kind: AudioInputKind, file?: File) => Promise<unknown>;
+  onStopAudio: () => unknown;
+  onToggleFlightRecording: () => unknown;
+  onPlayFlight: (file: File) => Promise<unknown>;
+  onStopFlightPlayback: () => unknown;
+  remote: RemoteClient;
+  sync: FlightSync;
 };
-export default function SettingsPanel({ settings, onChange, onReset }: SettingsPanelProps) {
-  const NORMALISE_SPEED = 4;
-  const NORMALISE_ROTATION_SPEED = -2000;
+export default function SettingsPanel({
+  settings,
+  audioInput,
+  flightInput,
+  onChange,
+  onReset,
+  onExportImage,
+  onNextOrbit,
+  onStartAudio,
+  onStopAudio,
+  onToggleFlightRecording,
+  onPlayFlight,
+  onStopFlightPlayback,
+  remote,
+  sync,
+}: SettingsPanelProps) {
+  const NORMALISE_SPEED = 1 / 15;
+  const NORMALISE_ROTATION_SPEED = -100 / 3;
   const NORMALISE_POINTS = 0.001;
+  const NORMALISE_PERCENT = 100;
+  const NORMALISE_ABERRATION = 10000;
   const [isAdvancedValues, toggleAdvancedValues] = useState(false);
   const maxValues = {
-    speed: [50 * NORMALISE_SPEED, 100 * NORMALISE_SPEED],
+    speed: [200, 400],
     rotationSpeed: [100, 200],
     cameraFov: [120, 180],
-    points: [50, 100],
+    points: [50, 250],
     subsetCount: [10, 20],
     levelCount: [10, 20],
   };
+  const attractorOptions = ATTRACTOR_NAMES.map((name) => ({
+    value: name,
+    label: ATTRACTORS[name].name,
+  }));
+  const exportResolutionOptions = (Object.keys(EXPORT_RESOLUTIONS) as ExportResolution[]).map(
+    (name) => ({
+      value: name,
+      label: EXPORT_RESOLUTIONS[name].label,
+    })
+  );
+  const regenerationModeOptions: { value: RegenerationMode; label: string }[] = [
+    { value: 'interval', label: 'Every few seconds' },
+    { value: 'levelCycle', label: 'Once per level cycle' },
+    { value: 'manual', label: 'Manually' },
+    { value: 'frozen', label: 'Never (freeze orbit)' },
+  ];
+  const recordingModeOptions: { value: RecordingMode; label: string }[] = [
+    { value: 'realtime', label: 'Real time (WebM video)' },
+    { value: 'offline', label: 'Offline (PNG frames)' },
+  ];
   const getMaxValues = ([regular, advanced]: number[]): number => {
     return isAdvancedValues ? advanced : regular;
   };
@@ -41,7 +108,7 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
             min={0}
             max={getMaxValues(maxValues.speed)}
             label="Speed"
-            value={settings.speed * NORMALISE_SPEED}
+            value={Math.round(settings.speed * NORMALISE_SPEED)}
             onChange={(speed) =>
               updateSetting({
                 speed: speed / NORMALISE_SPEED,
@@ -54,7 +121,7 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
             min={-getMaxValues(maxValues.rotationSpeed)}
             max={getMaxValues(maxValues.rotationSpeed)}
             label="Rotation speed"
-            value={Math.floor(settings.rotationSpeed * NORMALISE_ROTATION_SPEED)}
+            value={Math.round(settings.rotationSpeed * NORMALISE_ROTATION_SPEED)}
             onChange={(rotationSpeed) =>
               updateSetting({
                 rotationSpeed: rotationSpeed / NORMALISE_ROTATION_SPEED,
@@ -75,10 +142,268 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
             }
           />
         </ListItem>
+        <ListItem>
+          <Select
+            label="Attractor"
+            value={settings.attractor}
+            options={attractorOptions}
+            onChange={(attractor) =>
+              updateSetting({
+                attractor,
+              })
+            }
+          />
+        </ListItem>
+        <ListItem title="Picks a new attractor every time the orbit is regenerated">
+          <Checkbox
+            checked={settings.randomizeAttractor}
+            onChange={(randomizeAttractor) =>
+              updateSetting({
+                randomizeAttractor,
+              })
+            }
+            label="Random attractor"
+          />
+        </ListItem>
+        <ListItem>
+          <Select
+            label="New orbits"
+            value={settings.regenerationMode}
+            options={regenerationModeOptions}
+            onChange={(regenerationMode) =>
+              updateSetting({
+                regenerationMode,
+              })
+            }
+          />
+        </ListItem>
+        {settings.regenerationMode === 'interval' && (
+          <ListItem>
+            <Slider
+              min={1}
+              max={30}
+              label="Seconds between orbits"
+              value={settings.regenerationInterval}
+              onChange={(regenerationInterval) =>
+                updateSetting({
+                  regenerationInterval,
+                })
+              }
+            />
+          </ListItem>
+        )}
+        <ListItem>
+          <Button fullWidth onClick={onNextOrbit}>
+            Next orbit
+          </Button>
+        </ListItem>
+        <ListItem title="New orbits morph into place instead of replacing levels one by one">
+          <Checkbox
+            checked={settings.morphOrbits}
+            onChange={(morphOrbits) =>
+              updateSetting({
+                morphOrbits,
+              })
+            }
+            label="Morph between orbits"
+          />
+        </ListItem>
+        {settings.morphOrbits && (
+          <ListItem>
+            <Slider
+              min={1}
+              max={10}
+              label="Morph duration (seconds)"
+              value={settings.morphDuration}
+              onChange={(morphDuration) =>
+                updateSetting({
+                  morphDuration,
+                })
+              }
+            />
+          </ListItem>
+        )}
       </SettingsList>
       <Button fullWidth onClick={onReset}>
         Reset Defaults
       </Button>
+      <Dropdown header="Orbit">
+        <OrbitSettings
+          seed={settings.seed}
+          orbitParams={settings.orbitParams}
+          pinnedParams={settings.pinnedParams}
+          onChange={updateSetting}
+        />
+      </Dropdown>
+      <Dropdown header="Colours">
+        <PaletteSettings
+          palette={settings.palette}
+          paletteStops={settings.paletteStops}
+          onChange={updateSetting}
+        />
+      </Dropdown>
+      <Dropdown header="Effects">
+        <BorderedSettingsList>
+          {!settings.effectsSupported && (
+            <Hint>Effects are not supported by this graphics card</Hint>
+          )}
+          {settings.effectsReduced && <Hint>Effects were reduced to keep the frame rate up</Hint>}
+          <ListItem title="Makes bright particles glow">
+            <Checkbox
+              checked={settings.bloom}
+              onChange={(bloom) =>
+                updateSetting({
+                  bloom,
+                })
+              }
+              label="Bloom"
+            />
+          </ListItem>
+          {settings.bloom && (
+            <ListItem>
+              <Slider
+                min={0}
+                max={300}
+                label="Bloom strength (%)"
+                value={Math.round(settings.bloomStrength * NORMALISE_PERCENT)}
+                onChange={(bloomStrength) =>
+                  updateSetting({
+                    bloomStrength: bloomStrength / NORMALISE_PERCENT,
+                  })
+                }
+              />
+            </ListItem>
+          )}
+          <ListItem title="Particles leave fading trails behind, saved images are drawn without them">
+            <Checkbox
+              checked={settings.trails}
+              onChange={(trails) =>
+                updateSetting({
+                  trails,
+                })
+              }
+              label="Motion trails"
+            />
+          </ListItem>
+          {settings.trails && (
+            <ListItem>
+              <Slider
+                min={0}
+                max={98}
+                label="Trail length (%)"
+                value={Math.round(settings.trailLength * NORMALISE_PERCENT)}
+                onChange={(trailLength) =>
+                  updateSetting({
+                    trailLength: trailLength / NORMALISE_PERCENT,
+                  })
+                }
+              />
+            </ListItem>
+          )}
+          <ListItem title="Splits the colour channels, like a cheap lens">
+            <Checkbox
+              checked={settings.chromaticAberration}
+              onChange={(chromaticAberration) =>
+                updateSetting({
+                  chromaticAberration,
+                })
+              }
+              label="Chromatic aberration"
+            />
+          </ListItem>
+          {settings.chromaticAberration && (
+            <ListItem>
+              <Slider
+                min={0}
+                max={100}
+                label="Aberration amount"
+                value={Math.round(settings.chromaticAberrationAmount * NORMALISE_ABERRATION)}
+                onChange={(amount) =>
+                  updateSetting({
+                    chromaticAberrationAmount: amount / NORMALISE_ABERRATION,
+                  })
+                }
+              />
+            </ListItem>
+          )}
+        </BorderedSettingsList>
+      </Dropdown>
+      <Dropdown header="Audio">
+        <AudioSettings
+          mapping={settings}
+          audioInput={audioInput}
+          onChange={updateSetting}
+          onStartAudio={onStartAudio}
+          onStopAudio={onStopAudio}
+        />
+      </Dropdown>
+      <Dropdown header="Flight">
+        <FlightSettings
+          smoothing={settings}
+          flightInput={flightInput}
+          onChange={updateSetting}
+          onToggleFlightRecording={onToggleFlightRecording}
+          onPlayFlight={onPlayFlight}
+          onStopFlightPlayback={onStopFlightPlayback}
+        />
+      </Dropdown>
+      <Dropdown header="Remote control">
+        <RemoteSettings remote={remote} />
+      </Dropdown>
+      <Dropdown header="Multi-window sync">
+        <SyncSettings sync={sync} />
+      </Dropdown>
+      <Dropdown header="Presets">
+        <PresetsPanel settings={settings} onLoad={updateSetting} />
+      </Dropdown>
+      <Dropdown header="Export">
+        <BorderedSettingsList>
+          <ListItem>
+            <Select
+              label="Image resolution"
+              value={settings.exportResolution}
+              options={exportResolutionOptions}
+              onChange={(exportResolution) =>
+                updateSetting({
+                  exportResolution,
+                })
+              }
+            />
+          </ListItem>
+          <ListItem>
+            <Button fullWidth onClick={onExportImage}>
+              Save image
+            </Button>
+          </ListItem>
+          <ListItem title="Offline recordings render every frame, however long that takes">
+            <Select
+              label="Recording mode"
+              value={settings.recordingMode}
+              options={recordingModeOptions}
+              onChange={(recordingMode) =>
+                updateSetting({
+                  recordingMode,
+                })
+              }
+            />
+          </ListItem>
+          {settings.recordingMode === 'offline' && (
+            <ListItem>
+              <Slider
+                min={1}
+                max={120}
+                label="Recording length (seconds)"
+                value={settings.recordingDuration}
+                onChange={(recordingDuration) =>
+                  updateSetting({
+                    recordingDuration,
+                  })
+                }
+              />
+            </ListItem>
+          )}
+        </BorderedSettingsList>
+      </Dropdown>
       <Dropdown header="Advanced Settings">
         <BorderedSettingsList>
           <ListItem>
@@ -120,6 +445,30 @@ export default function SettingsPanel({ settings, onChange, onReset }: SettingsP
               }
             />
           </ListItem>
+          <ListItem title="Levels fade towards the camera instead of popping out of view">
+            <Checkbox
+              checked={settings.shaderParticles}
+              onChange={(shaderParticles) =>
+                updateSetting({
+                  shaderParticles,
+                })
+              }
+              label="Shader particles"
+            />
+          </ListItem>
+          {settings.shaderParticles && (
+            <ListItem title="Colours blend into the next subset's colour along the orbit">
+              <Checkbox
+                checked={settings.iterationGradient}
+                onChange={(iterationGradient) =>
+                  updateSetting({
+                    iterationGradient,
+                  })
+                }
+                label="Colour along iterations"
+              />
+            </ListItem>
+          )}
           <ListItem title="Increases maximums for sliders">
             <Checkbox
               checked={isAdvancedValues}
@@ -150,3 +499,7 @@ const BorderedSettingsList = styled(SettingsList)`
   border-radius: 4px;
 `;
 const ListItem = styled.li``;
+const Hint = styled.li`
+  text-align: center;
+  font-weight: normal;
+`;
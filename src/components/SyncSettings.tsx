@@ -0,0 +1,98 @@
+import React from 'react';
+import styled from 'styled-components';
+import FlightSync from '../sync/flightSync';
+import { MAX_SYNC_COLUMNS } from '../sync/view';
+import { UnstyledUl } from '../styles/mixins';
+import { SyncRole, SyncView } from '../types/hopalong';
+import { useSyncState } from '../util/hooks';
+import Select from './common/Select';
+import Slider from './common/Slider';
+
+type PropsType = {
+  sync: FlightSync;
+};
+
+const roleOptions: { value: SyncRole | 'off'; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'leader', label: 'Leader, others follow this window' },
+  { value: 'follower', label: 'Follower, mirrors the leader' },
+];
+const viewModeOptions: { value: SyncView['mode']; label: string }[] = [
+  { value: 'whole', label: 'Whole view' },
+  { value: 'slice', label: 'Slice of a wide view, for screens side by side' },
+  { value: 'angle', label: 'Turned camera, for screens around the viewer' },
+];
+
+export default function SyncSettings({ sync }: PropsType) {
+  const { role, view, error } = useSyncState(sync);
+
+  const updateColumns = (columns: number) => {
+    const clamped = Math.min(Math.max(Math.round(columns), 1), MAX_SYNC_COLUMNS);
+    sync.setView({ ...view, columns: clamped, column: Math.min(view.column, clamped - 1) });
+  };
+  const updateColumn = (column: number) => {
+    sync.setView({ ...view, column: Math.min(Math.max(Math.round(column), 1), view.columns) - 1 });
+  };
+
+  return (
+    <SettingsList>
+      <Hint>Open more windows of the visualiser in this browser, and fly them together</Hint>
+      <ListItem>
+        <Select
+          label="This window"
+          value={role ?? 'off'}
+          options={roleOptions}
+          onChange={(value) => sync.setRole(value === 'off' ? null : value)}
+        />
+      </ListItem>
+      <ListItem>
+        <Select
+          label="View"
+          value={view.mode}
+          options={viewModeOptions}
+          onChange={(mode) => sync.setView({ ...view, mode })}
+        />
+      </ListItem>
+      {view.mode !== 'whole' && (
+        <>
+          <ListItem>
+            <Slider
+              min={1}
+              max={MAX_SYNC_COLUMNS}
+              label="Screens across"
+              value={view.columns}
+              onChange={updateColumns}
+            />
+          </ListItem>
+          <ListItem>
+            <Slider
+              min={1}
+              max={view.columns}
+              label="This screen, from the left"
+              value={view.column + 1}
+              onChange={updateColumn}
+            />
+          </ListItem>
+        </>
+      )}
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+    </SettingsList>
+  );
+}
+const SettingsList = styled(UnstyledUl)`
+  display: grid;
+  grid-template-columns: 1fr;
+  row-gap: 16px;
+  padding: 16px 8px;
+  border: 1px solid white;
+  border-radius: 4px;
+`;
+const ListItem = styled.li``;
+const Hint = styled.li`
+  text-align: center;
+  font-weight: normal;
+`;
+const ErrorMessage = styled.li`
+  color: #ff6b6b;
+  text-align: center;
+`;
@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   FaBars,
+  FaCamera,
   FaChartArea,
+  FaCircle,
   FaCompressArrowsAlt,
   FaCrosshairs,
   FaExpandArrowsAlt,
@@ -9,11 +11,15 @@ import {
   FaLockOpen,
   FaPause,
   FaPlay,
+  FaStepBackward,
+  FaStepForward,
+  FaStop,
   FaTimes,
 } from 'react-icons/fa';
 import styled from 'styled-components';
 import { IconButton } from './common/Button';
 import { classes } from '../styles/utils';
+import { Recording } from '../types/hopalong';
 import { useForceUpdate } from '../util/hooks';
 
 type PropsType = {
@@ -21,7 +27,17 @@ type PropsType = {
   statsOpen: boolean;
   mouseLocked: boolean;
   isPlaying: boolean;
+  recording: Recording | null;
+  /** Why the last image export or recording failed */
+  captureError: string | null;
+  /** Title of the current track */
+  nowPlaying: string | null;
+  hasTracks: boolean;
   onCenter: () => unknown;
+  onExportImage: () => unknown;
+  onToggleRecording: () => unknown;
+  onPreviousTrack: () => unknown;
+  onNextTrack: () => unknown;
   updateMenuOpen: () => unknown;
   updateStatsOpen: () => unknown;
   updateMouseLocked: () => unknown;
@@ -32,7 +48,15 @@ export default function Toolbar({
   statsOpen,
   mouseLocked,
   isPlaying,
+  recording,
+  captureError,
+  nowPlaying,
+  hasTracks,
   onCenter,
+  onExportImage,
+  onToggleRecording,
+  onPreviousTrack,
+  onNextTrack,
   updateMenuOpen,
   updateStatsOpen,
   updateMouseLocked,
@@ -49,6 +73,17 @@ export default function Toolbar({
     }
   };
 
+  // Tick the elapsed time of real time recordings
+  const isRecordingRealtime = recording?.mode === 'realtime';
+  const [, updateTick] = useState(0);
+  useEffect(() => {
+    if (!isRecordingRealtime) {
+      return;
+    }
+    const intervalKey = window.setInterval(() => updateTick((tick) => tick + 1), 1000);
+    return () => window.clearInterval(intervalKey);
+  }, [isRecordingRealtime]);
+
   return (
     <nav>
       <NavList>
@@ -72,11 +107,54 @@ export default function Toolbar({
             {isPlaying ? <FaPause /> : <FaPlay />}
           </IconButton>
         </ListItem>
+        {hasTracks && (
+          <>
+            <ListItem>
+              <IconButton title="Previous track" onClick={onPreviousTrack}>
+                <FaStepBackward />
+              </IconButton>
+            </ListItem>
+            <ListItem>
+              <IconButton title="Next track" onClick={onNextTrack}>
+                <FaStepForward />
+              </IconButton>
+            </ListItem>
+          </>
+        )}
         <ListItem>
           <IconButton onClick={onCenter}>
             <FaCrosshairs />
           </IconButton>
         </ListItem>
+        <ListItem>
+          <IconButton title="Save image" onClick={onExportImage}>
+            <FaCamera />
+          </IconButton>
+        </ListItem>
+        <ListItem>
+          <IconButton
+            className={classes({ active: !!recording })}
+            title={recording ? 'Stop recording' : 'Record video'}
+            onClick={onToggleRecording}
+          >
+            {recording ? <FaStop /> : <FaCircle />}
+          </IconButton>
+        </ListItem>
+        {recording && (
+          <ListItem>
+            <RecordingTime>{formatRecordingTime(recording)}</RecordingTime>
+          </ListItem>
+        )}
+        {!recording && captureError && (
+          <ListItem>
+            <CaptureError title={captureError}>{captureError}</CaptureError>
+          </ListItem>
+        )}
+        {nowPlaying && (
+          <ListItem>
+            <NowPlaying title={nowPlaying}>{nowPlaying}</NowPlaying>
+          </ListItem>
+        )}
         <ListItem>
           <IconButton
             className={classes({ active: statsOpen, hide: !menuOpen })}
@@ -90,6 +168,18 @@ export default function Toolbar({
   );
 }
 
+function formatSeconds(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+function formatRecordingTime({ mode, startedAt, duration, rendered }: Recording) {
+  if (mode === 'offline') {
+    return `${formatSeconds(rendered)} / ${formatSeconds(duration)}`;
+  }
+  return formatSeconds((Date.now() - startedAt) / 1000);
+}
+
 const NavList = styled.ul`
   display: flex;
   list-style: none;
@@ -101,3 +191,27 @@ const ListItem = styled.li`
     margin-left: 8px;
   }
 `;
+const RecordingTime = styled.span`
+  display: inline-block;
+  line-height: 32px;
+  font-variant-numeric: tabular-nums;
+`;
+const CaptureError = styled.span`
+  display: inline-block;
+  max-width: 240px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  line-height: 32px;
+  vertical-align: top;
+  color: #ff6b6b;
+`;
+const NowPlaying = styled.span`
+  display: inline-block;
+  max-width: 240px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  line-height: 32px;
+  vertical-align: top;
+`;
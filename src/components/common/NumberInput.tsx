@@ -0,0 +1,48 @@
+import React, { ChangeEvent, KeyboardEvent, useEffect, useState } from 'react';
+import Input from './Input';
+
+type PropsType = {
+  id?: string;
+  value: number;
+  parse: (value: string) => number | undefined;
+  onChange: (value: number) => unknown;
+  className?: string;
+};
+/**
+ * Text input for numbers that are only committed once valid, on blur or when pressing enter.
+ * Allows intermediate values like "-" or "1." to be typed.
+ */
+export default function NumberInput({ id, value, parse, onChange, className }: PropsType) {
+  const [draft, updateDraft] = useState(value.toString());
+
+  useEffect(() => {
+    updateDraft(value.toString());
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parse(draft);
+    if (parsed === undefined) {
+      updateDraft(value.toString());
+    } else if (parsed !== value) {
+      onChange(parsed);
+    }
+  };
+  const doChange = (e: ChangeEvent<HTMLInputElement>) => updateDraft(e.currentTarget.value);
+  const doKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commit();
+    }
+  };
+  return (
+    <Input
+      id={id}
+      className={className}
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      onChange={doChange}
+      onBlur={commit}
+      onKeyDown={doKeyDown}
+    />
+  );
+}
@@ -0,0 +1,194 @@
+import { PerspectiveCamera, Scene, Vector2, WebGLRenderer } from 'three';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { SimSettings } from './types/hopalong';
+
+export type EffectSettings = Pick<
+  SimSettings,
+  | 'bloom'
+  | 'bloomStrength'
+  | 'trails'
+  | 'trailLength'
+  | 'chromaticAberration'
+  | 'chromaticAberrationAmount'
+>;
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  bloom: false,
+  bloomStrength: 1.5,
+  trails: false,
+  trailLength: 0.8,
+  chromaticAberration: false,
+  chromaticAberrationAmount: 0.003,
+};
+
+const BLOOM_RADIUS = 0.4;
+const BLOOM_THRESHOLD = 0;
+
+// Frame rate is measured over this many seconds before deciding to reduce the effects
+const MONITOR_PERIOD = 2;
+const MIN_FPS = 40;
+
+/**
+ * Steps effects are reduced by when frames take too long: full quality, half resolution,
+ * without bloom (the most expensive pass), and finally no effects at all
+ */
+export const MAX_DEGRADE_LEVEL = 3;
+
+/**
+ * Whether the GPU can render into the half float targets the effects need
+ */
+export function isEffectsSupported(renderer: WebGLRenderer) {
+  const { capabilities, extensions } = renderer;
+  return (
+    capabilities.isWebGL2 ||
+    (extensions.has('OES_texture_half_float') && extensions.has('EXT_color_buffer_half_float'))
+  );
+}
+
+/**
+ * Post-processing chain of bloom, motion trails and chromatic aberration
+ */
+export default class Effects {
+  private composer: EffectComposer;
+  private bloomPass: UnrealBloomPass;
+  private afterimagePass: AfterimagePass;
+  private rgbShiftPass: ShaderPass;
+  /** Every pass of the composer, in order */
+  private passes: Pass[];
+  private renderer: WebGLRenderer;
+  private settings: EffectSettings = DEFAULT_EFFECT_SETTINGS;
+
+  degradeLevel = 0;
+  private monitoredFrames = 0;
+  private monitoredTime = 0;
+
+  constructor(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera) {
+    this.renderer = renderer;
+    const size = renderer.getSize(new Vector2());
+    this.composer = new EffectComposer(renderer);
+    this.bloomPass = new UnrealBloomPass(
+      size,
+      this.settings.bloomStrength,
+      BLOOM_RADIUS,
+      BLOOM_THRESHOLD
+    );
+    this.afterimagePass = new AfterimagePass();
+    this.rgbShiftPass = new ShaderPass(RGBShiftShader);
+
+    this.passes = [
+      new RenderPass(scene, camera),
+      this.bloomPass,
+      this.afterimagePass,
+      this.rgbShiftPass,
+      // Converts to the output colour space, which the render pass leaves linear
+      new OutputPass(),
+    ];
+    this.passes.forEach((pass) => this.composer.addPass(pass));
+    this.applyLevel();
+  }
+
+  /** Whether any effect is drawn, otherwise the scene can be rendered directly */
+  get active() {
+    const { bloomPass, afterimagePass, rgbShiftPass } = this;
+    return bloomPass.enabled || afterimagePass.enabled || rgbShiftPass.enabled;
+  }
+
+  applySettings(settings: EffectSettings) {
+    const changed = (Object.keys(DEFAULT_EFFECT_SETTINGS) as (keyof EffectSettings)[]).some(
+      (key) => settings[key] !== this.settings[key]
+    );
+    this.settings = settings;
+    // Changed settings get another chance at full quality, the same ones stay reduced
+    if (changed) {
+      this.degradeLevel = 0;
+      this.resetMonitor();
+    }
+    this.applyLevel();
+  }
+
+  private applyLevel() {
+    const { bloom, bloomStrength, trails, chromaticAberration, chromaticAberrationAmount } =
+      this.settings;
+    const bypass = this.degradeLevel >= MAX_DEGRADE_LEVEL;
+    this.bloomPass.enabled = bloom && !bypass && this.degradeLevel < 2;
+    this.bloomPass.strength = bloomStrength;
+    this.afterimagePass.enabled = trails && !bypass;
+    this.rgbShiftPass.enabled = chromaticAberration && !bypass;
+    this.rgbShiftPass.uniforms.amount.value = chromaticAberrationAmount;
+
+    const pixelRatio = this.renderer.getPixelRatio();
+    this.composer.setPixelRatio(this.degradeLevel >= 1 ? pixelRatio / 2 : pixelRatio);
+  }
+
+  /**
+   * Tracks the frame rate while effects are drawn, and reduces them when it drops too low.
+   * Returns whether the effects were reduced.
+   */
+  monitor(delta: number) {
+    if (!this.active || this.degradeLevel >= MAX_DEGRADE_LEVEL) {
+      this.resetMonitor();
+      return false;
+    }
+    this.monitoredFrames++;
+    this.monitoredTime += delta;
+    if (this.monitoredTime < MONITOR_PERIOD) {
+      return false;
+    }
+    const fps = this.monitoredFrames / this.monitoredTime;
+    this.resetMonitor();
+    if (fps >= MIN_FPS) {
+      return false;
+    }
+    this.degradeLevel++;
+    this.applyLevel();
+    return true;
+  }
+
+  private resetMonitor() {
+    this.monitoredFrames = 0;
+    this.monitoredTime = 0;
+  }
+
+  /**
+   * New passes for the effects as they are set, at full quality, for images rendered apart from
+   * the live view. Trails are left out, as an image has no earlier frames to trail.
+   *
+   * @param tileScale How many times wider the image is than the tiles it is rendered in
+   */
+  createImagePasses(tileScale: number): Pass[] {
+    const { bloom, bloomStrength, chromaticAberration, chromaticAberrationAmount } = this.settings;
+    const passes: Pass[] = [];
+    if (bloom) {
+      passes.push(new UnrealBloomPass(new Vector2(), bloomStrength, BLOOM_RADIUS, BLOOM_THRESHOLD));
+    }
+    if (chromaticAberration) {
+      const rgbShiftPass = new ShaderPass(RGBShiftShader);
+      // The offset is a fraction of the tile, rather than of the whole image
+      rgbShiftPass.uniforms.amount.value = chromaticAberrationAmount * tileScale;
+      passes.push(rgbShiftPass);
+    }
+    return passes;
+  }
+
+  render(delta: number) {
+    // The trail fades by the same amount per second, whatever the frame rate
+    this.afterimagePass.uniforms.damp.value = Math.pow(this.settings.trailLength, delta * 60);
+    this.composer.render(delta);
+  }
+
+  setSize(width: number, height: number) {
+    this.composer.setSize(width, height);
+  }
+
+  dispose() {
+    this.composer.dispose();
+    this.passes.forEach((pass) => pass.dispose());
+  }
+}
@@ -1,33 +1,76 @@
-import { Bounds, Movement, MovementStrategy } from './types/hopalong';
+import { HOPALONG_ACTIONS } from './actions';
+import {
+  Bounds,
+  GamepadAction,
+  GamepadBinding,
+  GamepadInput,
+  GamepadProfile,
+  HopalongAction,
+  Movement,
+  MovementStrategy,
+} from './types/hopalong';
+
+// The strategies were tuned per frame at 60 FPS, speeds are now per second
+const FRAME_RATE = 60;
+const TRANSVERSE_SPEED = 10 * FRAME_RATE;
+// Speeds at full deflection with a profile, the same as the standard strategy's
+const PROFILE_MAX_SPEED = 16 * FRAME_RATE;
+const PROFILE_MAX_ROTATION_SPEED = (1 / 50) * FRAME_RATE;
+/** Change of the field of view at full deflection, in degrees per second */
+export const GAMEPAD_FOV_SPEED = 30;
+// Value an input has to reach to count as pressed, or to be detected while learning
+const PRESS_THRESHOLD = 0.5;
+
+export const DEFAULT_GAMEPAD_DEADZONE = 0.1;
+export const DEFAULT_GAMEPAD_CURVE = 1;
+
+/** Actions that last for as long as they are held, in either direction */
+export const GAMEPAD_MOVEMENT_ACTIONS: GamepadAction[] = [
+  'speed',
+  'rotation',
+  'transverseX',
+  'transverseY',
+  'fov',
+];
+/** Actions that happen once per press */
+export const GAMEPAD_TRIGGER_ACTIONS: HopalongAction[] = HOPALONG_ACTIONS;
+export const GAMEPAD_ACTIONS: GamepadAction[] = [
+  ...GAMEPAD_MOVEMENT_ACTIONS,
+  ...GAMEPAD_TRIGGER_ACTIONS,
+];
+
+/** The parts of a `Gamepad` that are read, so the state can be faked or copied */
+export type GamepadState = Pick<Gamepad, 'axes' | 'buttons'>;
 
 const stdGamepadMovementStrategy: MovementStrategy = function (
   bounds: Bounds,
   current: Movement,
-  gamepad: Gamepad
+  gamepad: Gamepad,
+  delta: number
 ): Movement {
   const { width, height } = bounds;
   const { x, y } = current;
 
   // Rotational momentum
   const leftStickHorizontal = deadzone(-gamepad.axes[0]);
-  const newRotationSpeed = leftStickHorizontal / 50;
+  const newRotationSpeed = (leftStickHorizontal / 50) * FRAME_RATE;
 
   // Forward momentum
   const leftStickVertical = deadzone(-gamepad.axes[1]);
   const leftStickMagnitude = magnitude(leftStickHorizontal, leftStickVertical);
   const forwardSpeed = clamp(
     0,
-    exponentiate(leftStickMagnitude * 4) * Math.sign(leftStickVertical)
+    exponentiate(leftStickMagnitude * 4) * Math.sign(leftStickVertical) * FRAME_RATE
   );
 
   // Transverse momentum
   const rightStickHorizontal = deadzone(gamepad.axes[2]);
-  const transverseSpeedX = signedSqrt(rightStickHorizontal) * 10;
-  const newX = clamp(-width / 2, transverseSpeedX + x, width / 2);
+  const transverseSpeedX = signedSqrt(rightStickHorizontal) * TRANSVERSE_SPEED;
+  const newX = clamp(-width / 2, transverseSpeedX * delta + x, width / 2);
 
   const rightStickVertical = deadzone(gamepad.axes[3]);
-  const transverseSpeedY = signedSqrt(rightStickVertical) * 10;
-  const newY = clamp(-height / 2, transverseSpeedY + y, height / 2);
+  const transverseSpeedY = signedSqrt(rightStickVertical) * TRANSVERSE_SPEED;
+  const newY = clamp(-height / 2, transverseSpeedY * delta + y, height / 2);
 
   return {
     speed: forwardSpeed,
@@ -45,14 +88,15 @@ type ArcadeButtonMapping = {
 };
 
 function arcadeGamepadMovementStrategyBuilder(buttons: ArcadeButtonMapping): MovementStrategy {
-  const { bigRightButtonIndex, bigLeftButtonIndex, smallRightButtonIndex, smallLeftButtonIndex } = buttons;
-  return function (bounds: Bounds, current: Movement, gamepad: Gamepad) {
+  const { bigRightButtonIndex, bigLeftButtonIndex, smallRightButtonIndex, smallLeftButtonIndex } =
+    buttons;
+  return function (bounds: Bounds, current: Movement, gamepad: Gamepad, delta: number) {
     const { width, height } = bounds;
     const { x, y } = current;
 
     const bigRightButton = gamepad.buttons[bigRightButtonIndex];
     const bigLeftButton = gamepad.buttons[bigLeftButtonIndex];
-    const speed = bigRightButton.pressed ? 8 : bigLeftButton.pressed ? 4 : 2;
+    const speed = (bigRightButton.pressed ? 8 : bigLeftButton.pressed ? 4 : 2) * FRAME_RATE;
 
     const smallRightButton = gamepad.buttons[smallRightButtonIndex];
     const smallLeftButton = gamepad.buttons[smallLeftButtonIndex];
@@ -61,10 +105,10 @@ function arcadeGamepadMovementStrategyBuilder(buttons: ArcadeButtonMapping): Mov
         return 0;
       }
       if (smallRightButton.pressed) {
-        return -0.02;
+        return -0.02 * FRAME_RATE;
       }
       if (smallLeftButton.pressed) {
-        return 0.02;
+        return 0.02 * FRAME_RATE;
       }
       return 0;
     })();
@@ -72,12 +116,12 @@ function arcadeGamepadMovementStrategyBuilder(buttons: ArcadeButtonMapping): Mov
 
     // Transverse momentum
     const rightStickHorizontal = deadzone(gamepad.axes[0]);
-    const transverseSpeedX = signedSqrt(rightStickHorizontal) * 10;
-    const newX = clamp(-width / 2, transverseSpeedX + x, width / 2);
+    const transverseSpeedX = signedSqrt(rightStickHorizontal) * TRANSVERSE_SPEED;
+    const newX = clamp(-width / 2, transverseSpeedX * delta + x, width / 2);
 
     const rightStickVertical = deadzone(gamepad.axes[1]);
-    const transverseSpeedY = signedSqrt(rightStickVertical) * 10;
-    const newY = clamp(-height / 2, transverseSpeedY + y, height / 2);
+    const transverseSpeedY = signedSqrt(rightStickVertical) * TRANSVERSE_SPEED;
+    const newY = clamp(-height / 2, transverseSpeedY * delta + y, height / 2);
 
     return {
       speed: speed * speedEasterEgg,
@@ -102,14 +146,232 @@ const linuxArcadeButtonMapping: ArcadeButtonMapping = {
   smallLeftButtonIndex: 2,
 };
 
-function buildGamepadMovementStrategy(gamepad: Gamepad): MovementStrategy {
-  if (gamepad.id.includes('SPEEDLINK COMPETITION PRO (Vendor: ')) {
-    return arcadeGamepadMovementStrategyBuilder(windowsArcadeButtonMapping);
+function findArcadeButtonMapping(id: string): ArcadeButtonMapping | undefined {
+  if (id.includes('SPEEDLINK COMPETITION PRO (Vendor: ')) {
+    return windowsArcadeButtonMapping;
+  }
+  if (id.includes('SPEEDLINK COMPETITION PRO Game Controller for Android')) {
+    return linuxArcadeButtonMapping;
+  }
+  return undefined;
+}
+
+const axis = (index: number, inverted = false): GamepadInput => ({ type: 'axis', index, inverted });
+const button = (index: number): GamepadInput => ({ type: 'button', index });
+const binding = (positive: GamepadInput | null, negative: GamepadInput | null = null) => ({
+  positive,
+  negative,
+});
+const unbound = binding(null);
+
+/**
+ * Creates a profile for the gamepad, bound like the standard strategy for pads with the standard
+ * layout: https://w3c.github.io/gamepad/#remapping
+ */
+export function createGamepadProfile(id: string): GamepadProfile {
+  return {
+    id,
+    bindings: {
+      speed: binding(axis(1, true)),
+      rotation: binding(axis(0, true)),
+      transverseX: binding(axis(2)),
+      transverseY: binding(axis(3)),
+      // Triggers
+      fov: binding(button(7), button(6)),
+      // Face buttons
+      recenter: binding(button(0)),
+      nextOrbit: binding(button(1)),
+      cycleRegenerationMode: binding(button(3)),
+      // Back
+      reset: binding(button(8)),
+      // D-pad
+      levelsUp: binding(button(12)),
+      levelsDown: binding(button(13)),
+      pointsDown: binding(button(14)),
+      pointsUp: binding(button(15)),
+      fovUp: unbound,
+      fovDown: unbound,
+      exportImage: unbound,
+      toggleCursor: unbound,
+    },
+    deadzone: DEFAULT_GAMEPAD_DEADZONE,
+    curve: DEFAULT_GAMEPAD_CURVE,
+  };
+}
+
+/**
+ * Profile for actions of a gamepad the user hasn't set up, its movement comes from the built in
+ * strategies. Only the standard layout says which buttons are which, and arcade sticks move with
+ * their buttons, so other pads get no buttons bound that the strategy could be using.
+ */
+export function createDefaultGamepadProfile({
+  id,
+  mapping,
+}: Pick<Gamepad, 'id' | 'mapping'>): GamepadProfile {
+  const profile = createGamepadProfile(id);
+  const arcadeButtons = findArcadeButtonMapping(id);
+  if (mapping === 'standard' && !arcadeButtons) {
+    return profile;
   }
-  if (gamepad.id.includes('SPEEDLINK COMPETITION PRO Game Controller for Android')) {
-    return arcadeGamepadMovementStrategyBuilder(linuxArcadeButtonMapping);
+  const movementButtons: number[] = arcadeButtons ? Object.values(arcadeButtons) : [];
+  const isFree = (input: GamepadInput | null) =>
+    !input ||
+    (!!arcadeButtons && input.type === 'button' && !movementButtons.includes(input.index));
+  const bindings = { ...profile.bindings };
+  // Only these are read on top of the built in movement
+  for (const action of ['fov', ...GAMEPAD_TRIGGER_ACTIONS] as GamepadAction[]) {
+    const { positive, negative } = bindings[action];
+    if (!isFree(positive) || !isFree(negative)) {
+      bindings[action] = unbound;
+    }
   }
-  return stdGamepadMovementStrategy;
+  return { ...profile, bindings };
+}
+
+/**
+ * Applies the deadzone and curve to an axis value, keeping the full range outside the deadzone
+ */
+export function shapeAxis(value: number, deadzone: number, curve: number) {
+  const offset = Math.abs(value);
+  if (offset <= deadzone) {
+    return 0;
+  }
+  const scaled = Math.min((offset - deadzone) / (1 - deadzone), 1);
+  return Math.sign(value) * Math.pow(scaled, curve);
+}
+
+function readInput(input: GamepadInput | null, gamepad: GamepadState, profile: GamepadProfile) {
+  if (!input) {
+    return 0;
+  }
+  if (input.type === 'button') {
+    const pressedButton = gamepad.buttons[input.index];
+    // Digital buttons may only report whether they are pressed
+    return pressedButton ? Math.max(pressedButton.value, pressedButton.pressed ? 1 : 0) : 0;
+  }
+  const value = gamepad.axes[input.index] ?? 0;
+  return shapeAxis(input.inverted ? -value : value, profile.deadzone, profile.curve);
+}
+
+/**
+ * Value of the action between -1 and 1, from the inputs it is bound to
+ */
+export function readGamepadAction(
+  profile: GamepadProfile,
+  gamepad: GamepadState,
+  action: GamepadAction
+) {
+  const { positive, negative }: GamepadBinding = profile.bindings[action];
+  const value = readInput(positive, gamepad, profile) - readInput(negative, gamepad, profile);
+  return clamp(-1, value, 1);
+}
+
+export function isGamepadActionPressed(
+  profile: GamepadProfile,
+  gamepad: GamepadState,
+  action: GamepadAction
+) {
+  return readGamepadAction(profile, gamepad, action) > PRESS_THRESHOLD;
+}
+
+/**
+ * Finds the input that changed since `baseline`, for binding the next input the user moves
+ */
+export function detectGamepadInput(
+  baseline: GamepadState,
+  gamepad: GamepadState
+): GamepadInput | null {
+  for (let index = 0; index < gamepad.buttons.length; index++) {
+    const previous = baseline.buttons[index];
+    if (gamepad.buttons[index].pressed && !previous?.pressed) {
+      return button(index);
+    }
+  }
+  for (let index = 0; index < gamepad.axes.length; index++) {
+    // Some axes, like triggers mapped to axes, rest away from 0
+    const change = gamepad.axes[index] - (baseline.axes[index] ?? 0);
+    if (Math.abs(change) > PRESS_THRESHOLD) {
+      return axis(index, change < 0);
+    }
+  }
+  return null;
+}
+
+/**
+ * Copies the state of the gamepad, browsers may update `Gamepad` objects in place
+ */
+export function copyGamepadState({ axes, buttons }: GamepadState): GamepadState {
+  return {
+    axes: [...axes],
+    buttons: buttons.map(({ pressed, touched, value }) => ({ pressed, touched, value })),
+  };
+}
+
+function profileMovementStrategyBuilder(profile: GamepadProfile): MovementStrategy {
+  return function (bounds: Bounds, current: Movement, gamepad: Gamepad, delta: number) {
+    const { width, height } = bounds;
+    const { x, y } = current;
+    const read = (action: GamepadAction) => readGamepadAction(profile, gamepad, action);
+
+    const transverseSpeedX = read('transverseX') * TRANSVERSE_SPEED;
+    const transverseSpeedY = read('transverseY') * TRANSVERSE_SPEED;
+    return {
+      speed: Math.max(0, read('speed')) * PROFILE_MAX_SPEED,
+      rotationSpeed: read('rotation') * PROFILE_MAX_ROTATION_SPEED,
+      x: clamp(-width / 2, transverseSpeedX * delta + x, width / 2),
+      y: clamp(-height / 2, transverseSpeedY * delta + y, height / 2),
+    };
+  };
+}
+
+/**
+ * Combines the movements of several gamepads. The fastest speeds win, so idle gamepads don't hold
+ * the flight back, and the camera moves by the sum of their offsets.
+ */
+export function mergeMovements(bounds: Bounds, current: Movement, movements: Movement[]): Movement {
+  const { width, height } = bounds;
+  const strongest = (values: number[]) =>
+    values.reduce((acc, value) => (Math.abs(value) > Math.abs(acc) ? value : acc), 0);
+  const offset = (values: number[], from: number) =>
+    values.reduce((acc, value) => acc + value - from, 0);
+  return {
+    speed: strongest(movements.map(({ speed }) => speed)),
+    rotationSpeed: strongest(movements.map(({ rotationSpeed }) => rotationSpeed)),
+    x: clamp(
+      -width / 2,
+      current.x +
+        offset(
+          movements.map(({ x }) => x),
+          current.x
+        ),
+      width / 2
+    ),
+    y: clamp(
+      -height / 2,
+      current.y +
+        offset(
+          movements.map(({ y }) => y),
+          current.y
+        ),
+      height / 2
+    ),
+  };
+}
+
+/**
+ * Picks the strategy for the gamepad, a saved profile takes precedence over the built in ones
+ */
+function buildGamepadMovementStrategy(
+  gamepad: Gamepad,
+  profile?: GamepadProfile
+): MovementStrategy {
+  if (profile) {
+    return profileMovementStrategyBuilder(profile);
+  }
+  const arcadeButtons = findArcadeButtonMapping(gamepad.id);
+  return arcadeButtons
+    ? arcadeGamepadMovementStrategyBuilder(arcadeButtons)
+    : stdGamepadMovementStrategy;
 }
 
 export { buildGamepadMovementStrategy };
@@ -129,12 +391,7 @@ function exponentiate(stickOffset: number, base: number = 2) {
 }
 
 function magnitude(...axes: number[]) {
-  return Math.sqrt(
-    axes.reduce(
-      (acc: number, axis: number) => acc + Math.pow(axis, 2),
-      0
-    )
-  );
+  return Math.sqrt(axes.reduce((acc: number, axis: number) => acc + Math.pow(axis, 2), 0));
 }
 
 function signedSqrt(n: number) {
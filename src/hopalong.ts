@@ -5,90 +5,167 @@
 import autoBind from 'auto-bind';
 import {
   AdditiveBlending,
+  BufferAttribute,
   BufferGeometry,
+  Clock,
   FogExp2,
   PerspectiveCamera,
   Points,
   PointsMaterial,
+  SRGBColorSpace,
   Scene,
   Texture,
-  Vector3,
+  TextureLoader,
+  Vector2,
   WebGLRenderer,
 } from 'three';
 import {
+  AttractorName,
   Bounds,
+  CountSetting,
+  ExportResolution,
+  FlightSnapshot,
+  GamepadProfiles,
+  HopalongAction,
+  HopalongEvents,
+  InputSource,
   Movement,
+  MovementRecording,
   Orbit,
   OrbitParams,
+  PaletteName,
   ParticleSet,
-  Settings,
+  RecordingMode,
+  RegenerationMode,
   SimSettings,
-  SubsetPoint,
+  SimState,
+  SyncView,
 } from './types/hopalong';
-import { hsvToHsl } from './util/color';
-import { buildGamepadMovementStrategy } from './gamepad';
+import { RGB, generatePaletteColors, shiftHue } from './util/color';
+import { ATTRACTORS, ATTRACTOR_NAMES, DEFAULT_ATTRACTOR } from './attractors';
+import { DEFAULT_PALETTE, DEFAULT_PALETTE_STOPS, PALETTES } from './palettes';
+import { MORPH_FROM_ATTRIBUTE, createMorphPointsMaterial } from './morphMaterial';
+import { ParticleShaderMaterial } from './particleMaterial';
+import Effects, { DEFAULT_EFFECT_SETTINGS, EffectSettings, isEffectsSupported } from './effects';
+import { AudioInput } from './audio/input';
+import { AudioMappingEngine, AudioResponse, DEFAULT_AUDIO_MAPPING } from './audio/mapping';
+import {
+  DEFAULT_EXPORT_RESOLUTION,
+  EXPORT_RESOLUTIONS,
+  canvasToBlob,
+  renderImage,
+} from './capture';
+import { RECORDING_FRAME_RATE } from './recorder';
+import GamepadInputSource from './input/gamepadSource';
+import { MovementRecorder, PlaybackInputSource } from './input/movementRecording';
+import { DEFAULT_SMOOTHING_SETTINGS, SmoothingSettings, smoothMovement } from './input/smoothing';
+import TouchInputSource from './input/touchSource';
+import { DEFAULT_SYNC_VIEW, viewOffset, viewYaw } from './sync/view';
+import textureUrl from './images/galaxy.png';
+import {
+  OrbitRequest,
+  OrbitResponse,
+  SCALE_FACTOR,
+  SeedStream,
+  computeOrbit,
+  createOrbitPositions,
+} from './orbit';
+import Detector from './util/Detector';
+import { downloadBlob } from './util/download';
+import { addPngText } from './util/png';
+import { Random, createRandom, deriveSeed, randomSeed } from './util/random';
 
-const SCALE_FACTOR = 1500;
 const CAMERA_BOUND = 200;
 
 const LEVEL_DEPTH = 600;
 
-const DEF_BRIGHTNESS = 1;
-const DEF_SATURATION = 0.8;
-
 const SPRITE_SIZE = 5;
 
-// Orbit parameters constraints
-const A_MIN = -30;
-const A_MAX = 30;
-const B_MIN = 0.2;
-const B_MAX = 1.8;
-const C_MIN = 5;
-const C_MAX = 17;
-const D_MIN = 0;
-const D_MAX = 10;
-const E_MIN = 0;
-const E_MAX = 12;
-
-export const DEFAULT_SPEED = 8;
-export const DEFAULT_ROTATION_SPEED = 0.005;
+// Fraction of the distance to the mouse the camera covers per second,
+// equivalent to easing by 5% every frame at 60 FPS
+const CAMERA_EASING = 1 - Math.pow(0.95, 60);
+// Longer frames are clamped, so the flight doesn't jump after the tab was in the background
+const MAX_FRAME_DELTA = 0.1;
+// Browsers emulate mouse events after a tap, they are ignored for this long so the camera doesn't
+// snap to the finger
+const TOUCH_MOUSE_DELAY = 1000;
+
+// Speeds are in units per second, and radians per second for rotation
+export const DEFAULT_SPEED = 480;
+export const DEFAULT_ROTATION_SPEED = 0.3;
 export const DEFAULT_FOV = 60;
 
 export const DEFAULT_POINTS_SUBSET = 4000;
 export const DEFAULT_SUBSETS = 7;
 export const DEFAULT_LEVELS = 7;
+// Bounds of the settings that size the particle buffers, as far as the advanced sliders go
+export const COUNT_RANGES: { [setting in CountSetting]: [number, number] } = {
+  pointsPerSubset: [1000, 250000],
+  subsetCount: [1, 20],
+  levelCount: [1, 20],
+};
+export const COUNT_SETTINGS = Object.keys(COUNT_RANGES) as CountSetting[];
 
-export const SPEED_DELTA = 0.25;
+export const SPEED_DELTA = 15;
 export const SPEED_DELTA_EXTRA = SPEED_DELTA * 4;
-export const ROTATION_DELTA = 0.0005;
+export const ROTATION_DELTA = 0.03;
 export const ROTATION_DELTA_EXTRA = ROTATION_DELTA * 4;
 export const POINTS_DELTA = 1000;
 export const FOV_DELTA = 2;
 
-type HopalongParticleSet = ParticleSet<PointsMaterial>;
+export const DEFAULT_REGENERATION_MODE: RegenerationMode = 'interval';
+export const DEFAULT_REGENERATION_INTERVAL = 3;
+export const REGENERATION_MODES: RegenerationMode[] = [
+  'interval',
+  'frozen',
+  'levelCycle',
+  'manual',
+];
 
-type ConstructorProps = {
-  settings: Partial<SimSettings>;
-  canvas: HTMLCanvasElement;
-  texture: Texture;
-  stats: Stats;
-  onSettingsUpdate: (settings: Settings) => unknown;
-};
+export const DEFAULT_MORPH_DURATION = 2;
 
-function hopalong(x: number, y: number, a: number, b: number, c: number) {
-  return [
-    y - Math.sqrt(Math.abs(b * x - c)) * Math.sign(x),
-    a - x
-  ]
-}
+export const DEFAULT_RECORDING_MODE: RecordingMode = 'realtime';
+export const DEFAULT_RECORDING_DURATION = 10;
+
+// Hue shift applied to the palette on every beat, in degrees
+const BEAT_HUE_SHIFT = 40;
 
-function hopalong2(x: number, y: number, a: number, b: number, c: number) {
-  return [
-    y - 1.0 - Math.sqrt(Math.abs(b * x - 1.0 - c)) * Math.sign(x - 1.0),
-    a - x - 1.0
-  ]
+/**
+ * Picks the settings that are defined, out of the ones in `defaults`
+ */
+function pickSettings<T extends Partial<SimSettings>>(
+  settings: Partial<SimSettings>,
+  defaults: T
+): Partial<T> {
+  const picked: Partial<T> = {};
+  for (const name of Object.keys(defaults)) {
+    const value = settings[name as keyof SimSettings];
+    if (typeof value !== 'undefined') {
+      Object.assign(picked, { [name]: value });
+    }
+  }
+  return picked;
 }
 
+type HopalongParticleSet = ParticleSet<PointsMaterial | ParticleShaderMaterial>;
+
+export type HopalongOptions = {
+  settings?: Partial<SimSettings>;
+  /** Canvas to draw on, one is added to the container when left out */
+  canvas?: HTMLCanvasElement;
+  /** Element the canvas fills and follows the size of, defaults to the canvas's parent */
+  container?: HTMLElement;
+  /**
+   * Where mouse, touch and keyboard events are listened for, defaults to the container. Keys
+   * only reach containers that can be focused, e.g. with a `tabindex`.
+   */
+  eventTarget?: HTMLElement | Document;
+  /** Sprite every particle is drawn with, defaults to the bundled one */
+  texture?: Texture;
+  stats?: Stats;
+};
+type Listeners = { [E in keyof HopalongEvents]: HopalongEvents[E][] };
+
 export default class Hopalong {
   // Orbit parameters
   orbitParams: OrbitParams<number> = {
@@ -103,28 +180,63 @@ export default class Hopalong {
   camera: PerspectiveCamera;
   scene: Scene;
   renderer: WebGLRenderer;
-  stats: Stats;
-  onSettingsUpdate: (settings: SimSettings) => unknown;
+  stats?: Stats;
+  container: HTMLElement;
+  private eventTarget: HTMLElement | Document;
+  /** Whether the canvas was added by the visualiser, and is removed with it */
+  private ownsCanvas: boolean;
+  private resizeObserver?: ResizeObserver;
+  private listeners: Listeners = { settings: [], orbit: [], frame: [], error: [] };
 
-  hueValues: number[] = [];
+  subsetColors: RGB[] = [];
 
   mouseX = 0;
   mouseY = 0;
   private mouseLocked: boolean;
+  /** `timeStamp` of the latest touch event, in milliseconds */
+  private lastTouchTime = -Infinity;
 
-  windowHalfX = window.innerWidth / 2;
-  windowHalfY = window.innerHeight / 2;
+  /** Size of the container, in CSS pixels */
+  width = 0;
+  height = 0;
 
   private speed: number;
   private rotationSpeed: number;
   private numPointsSubset: number;
   private numSubsets: number;
   private numLevels: number;
-
-  private controllerConnected: boolean;
+  private attractor: AttractorName;
+  private randomizeAttractor: boolean;
+  private seed: number;
+  private pinnedParams: Partial<OrbitParams<number>>;
+  private palette: PaletteName;
+  private regenerationMode: RegenerationMode;
+  private regenerationInterval: number;
+  /** Seconds, or distance in the level cycle mode, since the last orbit was generated */
+  private sinceRegeneration = 0;
+  private morphOrbits: boolean;
+  private morphDuration: number;
+  private paletteStops: string[];
+  private exportResolution: ExportResolution;
+  private recordingMode: RecordingMode;
+  private recordingDuration: number;
+
+  private clock = new Clock();
+  /** Sources that steer the flight, the last one that moves takes precedence */
+  private inputSources: InputSource[] = [];
+  private gamepadSource: GamepadInputSource;
+  private touchSource: TouchInputSource;
+  private smoothing: SmoothingSettings;
+  private movementRecorder?: MovementRecorder;
+  private movementPlayback?: PlaybackInputSource;
+  /** Whether frames and orbits come from another window, rather than this one's own loop */
+  private following = false;
+  /** Part of a panorama this window shows */
+  private view: SyncView = DEFAULT_SYNC_VIEW;
 
   // Orbit data
   orbit: Orbit<number> = {
+    positions: new Float32Array(0),
     subsets: [],
     xMin: 0,
     xMax: 0,
@@ -133,12 +245,65 @@ export default class Hopalong {
     scaleX: 0,
     scaleY: 0,
   };
+  /** Orbit particles are morphing from, its buffer can't be reused until the morph is replaced */
+  previousOrbit?: Orbit<number>;
+  /** Orbit some particle sets show until they wrap around, its buffer is reused once none do */
+  retiredOrbit?: Orbit<number>;
+  /** Progress of the morph to the current orbit, shared by every material */
+  morphProgress = { value: 1 };
+  morphElapsed = 0;
+  morphFromColors: RGB[] = [];
+  /** Whether particles are drawn with `ParticleShaderMaterial`, which needs WebGL 2 */
+  private shaderParticles: boolean;
+  /** Whether shader particles blend into the next subset's colour along their iterations */
+  private iterationGradient: boolean;
+  /** Post-processing, unavailable when the GPU can't draw it */
+  effects?: Effects;
+  private effectSettings: EffectSettings;
+  /** Audio the flight reacts to, it is opened and closed by the owner */
+  private audioInput?: AudioInput;
+  private audioEngine: AudioMappingEngine;
+  /** Changes to the flight made by the audio in the current frame */
+  private audioResponse?: AudioResponse;
+  /** Rotation of the palette's hues, in degrees */
+  private hueShift = 0;
+  /** Uniforms shared by every `ParticleShaderMaterial` */
+  particleUniforms = {
+    morphProgress: this.morphProgress,
+    scale: { value: 1 },
+    pointCount: { value: 1 },
+  };
+  /** Buffer the next orbit is generated into, while `orbit` is being displayed */
+  spareOrbitPositions?: Float32Array;
   particleSets: HopalongParticleSet[] = [];
-  updateIntervalKey: number;
+  orbitWorker?: Worker;
+  /** Id of the most recently requested orbit, older responses are discarded */
+  latestOrbitRequest = 0;
+  /** Id of the orbit currently displayed */
+  appliedOrbitRequest = 0;
+  private orbitWaiters: (() => void)[] = [];
+  /** Whether frames are stepped by `renderFrameSequence` rather than the animation loop */
+  private offlineRendering = false;
+  private offlineStopRequested = false;
   destroyed = false;
 
-  constructor({ settings, canvas, texture, stats, onSettingsUpdate }: ConstructorProps) {
+  /**
+   * Starts flying straight away, listen to changes with `on` and stop with `destroy`
+   */
+  constructor({ settings = {}, canvas, container, eventTarget, texture, stats }: HopalongOptions) {
     autoBind(this);
+    const parent = container ?? canvas?.parentElement;
+    if (!parent) {
+      throw new Error('Unable to find the element to draw in, pass a container.');
+    }
+    this.container = parent;
+    this.eventTarget = eventTarget ?? parent;
+    this.ownsCanvas = !canvas;
+    if (!canvas) {
+      canvas = document.createElement('canvas');
+      canvas.style.display = 'block';
+      parent.appendChild(canvas);
+    }
 
     this.speed = settings.speed || DEFAULT_SPEED;
     this.rotationSpeed = settings.rotationSpeed || DEFAULT_ROTATION_SPEED;
@@ -146,39 +311,96 @@ export default class Hopalong {
     this.numLevels = settings.levelCount || DEFAULT_LEVELS;
     this.numPointsSubset = settings.pointsPerSubset || DEFAULT_POINTS_SUBSET;
     this.mouseLocked = settings.mouseLocked || false;
-    this.controllerConnected = false;
-
-    this.texture = texture;
+    this.attractor = settings.attractor || DEFAULT_ATTRACTOR;
+    this.randomizeAttractor = settings.randomizeAttractor || false;
+    this.seed = settings.seed ?? randomSeed();
+    this.pinnedParams = settings.pinnedParams || {};
+    this.palette = settings.palette || DEFAULT_PALETTE;
+    this.regenerationMode = settings.regenerationMode || DEFAULT_REGENERATION_MODE;
+    this.regenerationInterval = settings.regenerationInterval || DEFAULT_REGENERATION_INTERVAL;
+    this.morphOrbits = settings.morphOrbits || false;
+    this.shaderParticles = settings.shaderParticles || false;
+    this.effectSettings = {
+      ...DEFAULT_EFFECT_SETTINGS,
+      ...pickSettings(settings, DEFAULT_EFFECT_SETTINGS),
+    };
+    this.smoothing = {
+      ...DEFAULT_SMOOTHING_SETTINGS,
+      ...pickSettings(settings, DEFAULT_SMOOTHING_SETTINGS),
+    };
+    this.gamepadSource = new GamepadInputSource({
+      performAction: this.performAction,
+      changeFov: this.changeFov,
+    });
+    this.addInputSource(this.gamepadSource);
+    this.touchSource = new TouchInputSource({
+      changeFov: this.changeFov,
+      recenter: this.recenterCamera,
+    });
+    this.addInputSource(this.touchSource);
+    this.audioEngine = new AudioMappingEngine({
+      ...DEFAULT_AUDIO_MAPPING,
+      ...pickSettings(settings, DEFAULT_AUDIO_MAPPING),
+    });
+    this.iterationGradient = settings.iterationGradient || false;
+    this.morphDuration = settings.morphDuration || DEFAULT_MORPH_DURATION;
+    this.paletteStops = settings.paletteStops || DEFAULT_PALETTE_STOPS;
+    this.exportResolution = settings.exportResolution || DEFAULT_EXPORT_RESOLUTION;
+    this.recordingMode = settings.recordingMode || DEFAULT_RECORDING_MODE;
+    this.recordingDuration = settings.recordingDuration || DEFAULT_RECORDING_DURATION;
+
+    this.texture = texture ?? new TextureLoader().load(textureUrl);
     this.stats = stats;
     this.initOrbit(this.numSubsets, this.numPointsSubset);
     this.init(canvas);
     this.animate();
-    this.onSettingsUpdate = onSettingsUpdate;
-    this.fireSettingsChange();
   }
 
+  /**
+   * Stops the flight and lets go of everything it holds, the visualiser can't be used after
+   */
   destroy() {
-    window.clearInterval(this.updateIntervalKey);
+    this.removeEventListeners();
+    this.orbitWorker?.terminate();
+    this.effects?.dispose();
     this.renderer.dispose();
+    if (this.ownsCanvas) {
+      this.renderer.domElement.remove();
+    }
+    for (const event of Object.keys(this.listeners) as (keyof HopalongEvents)[]) {
+      this.listeners[event] = [];
+    }
     this.destroyed = true;
   }
 
-  initOrbit(numSubsets: number, numPointsSubset: number) {
-    // Initialize data points
-    this.orbit.subsets = [];
-    for (let i = 0; i < numSubsets; i++) {
-      const subsetPoints: SubsetPoint[] = [];
-      for (let j = 0; j < numPointsSubset; j++) {
-        subsetPoints[j] = {
-          x: 0,
-          y: 0,
-          vertex: new Vector3(0, 0, 0),
-        };
-      }
-      this.orbit.subsets.push(subsetPoints);
+  /**
+   * Calls `listener` whenever `event` happens, returns a function to stop
+   */
+  on<E extends keyof HopalongEvents>(event: E, listener: HopalongEvents[E]) {
+    this.listeners[event].push(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof HopalongEvents>(event: E, listener: HopalongEvents[E]) {
+    const listeners = this.listeners[event] as HopalongEvents[E][];
+    this.listeners[event] = listeners.filter((current) => current !== listener) as Listeners[E];
+  }
+
+  private reportError(error: unknown) {
+    this.emit('error', error instanceof Error ? error : new Error(String(error)));
+  }
+
+  private emit<E extends keyof HopalongEvents>(event: E, ...args: Parameters<HopalongEvents[E]>) {
+    for (const listener of this.listeners[event]) {
+      (listener as (...args: Parameters<HopalongEvents[E]>) => unknown)(...args);
     }
   }
 
+  initOrbit(numSubsets: number, numPointsSubset: number) {
+    // The displayed orbit is kept until the first orbit of the new layout arrives
+    this.spareOrbitPositions = createOrbitPositions(numSubsets, numPointsSubset);
+  }
+
   init(canvas: HTMLCanvasElement) {
     // Setup renderer and effects
     this.renderer = new WebGLRenderer({
@@ -188,35 +410,41 @@ export default class Hopalong {
     });
     this.renderer.setClearColor(0x000000);
     this.renderer.setClearAlpha(1);
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.setPixelRatio(window.devicePixelRatio || 1);
 
-    this.camera = new PerspectiveCamera(
-      DEFAULT_FOV,
-      window.innerWidth / window.innerHeight,
-      1,
-      3 * SCALE_FACTOR
-    );
+    this.camera = new PerspectiveCamera(DEFAULT_FOV, 1, 1, 3 * SCALE_FACTOR);
     this.camera.position.set(0, 0, SCALE_FACTOR / 2);
 
     this.scene = new Scene();
     this.scene.fog = new FogExp2(0x000000, 0.001);
+    // Point sizes are relative to the height of the render target, which differs when exporting
+    // images or drawing effects
+    const drawingBufferSize = new Vector2();
+    this.scene.onBeforeRender = (renderer) => {
+      const height =
+        renderer.getRenderTarget()?.height ?? renderer.getDrawingBufferSize(drawingBufferSize).y;
+      this.particleUniforms.scale.value = height / 2;
+    };
 
-    this.generateOrbit(this.numSubsets, this.numPointsSubset);
-    this.generateHues(this.numSubsets);
+    if (isEffectsSupported(this.renderer)) {
+      this.effects = new Effects(this.renderer, this.scene, this.camera);
+      this.effects.applySettings(this.effectSettings);
+    }
 
-    // Create particle systems
-    for (let k = 0; k < this.numLevels; k++) {
-      for (let s = 0; s < this.numSubsets; s++) {
-        this.generateParticleSet(k, s);
-      }
+    // Orbit generation is moved off the main thread where supported,
+    // particle systems are created once the first orbit arrives
+    if (new Detector().workers) {
+      this.orbitWorker = new Worker(new URL('./orbit.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.orbitWorker.onmessage = ({ data }: MessageEvent<OrbitResponse>) =>
+        this.onOrbitGenerated(data);
+      this.orbitWorker.onerror = this.onOrbitWorkerError;
     }
+    this.generateOrbit(this.numSubsets, this.numPointsSubset);
 
     this.addEventListeners();
-    this.onWindowResize();
-
-    // Schedule orbit regeneration
-    this.updateIntervalKey = window.setInterval(this.updateOrbit, 3000);
+    this.onResize();
   }
 
   setLevelSubsetCount(
@@ -231,9 +459,14 @@ export default class Hopalong {
     // First, generate the new orbits
     if (subsetCount !== undefined || pointsPerSubset !== undefined) {
       this.initOrbit(this.numSubsets, this.numPointsSubset);
-      this.updateOrbit();
+      this.generateOrbit(this.numSubsets, this.numPointsSubset);
     }
 
+    this.syncParticleSets();
+    this.fireSettingsChange();
+  }
+
+  syncParticleSets() {
     const exists = new Set();
 
     // Delete any particle sets that are no longer needed
@@ -247,36 +480,31 @@ export default class Hopalong {
       return keep;
     });
 
-    // Generate any new particle sets
+    // Generate any new particle sets, subsets still being generated are added once they arrive
     for (let k = 0; k < this.numLevels; k++) {
       for (let s = 0; s < this.numSubsets; s++) {
-        if (!exists.has(`${k}-${s}`)) {
+        if (!exists.has(`${k}-${s}`) && this.orbit.subsets[s]) {
           this.generateParticleSet(k, s);
         }
       }
     }
-    this.fireSettingsChange();
   }
 
   generateParticleSet(level: number, subset: number) {
     // Updating from Geometry to BufferGeometry
     // https://github.com/mrdoob/three.js/pull/21031
     // https://discourse.threejs.org/t/three-geometry-will-be-removed-from-core-with-r125/22401
-    const vertices = this.orbit.subsets[subset].map(({ vertex }) => vertex);
     const geometry = new BufferGeometry();
-    geometry.setFromPoints(vertices);
-
-    // Updating from ParticleSystem to points
-    // https://github.com/mrdoob/three.js/issues/4065
-    const materials = new PointsMaterial({
-      size: SPRITE_SIZE,
-      map: this.texture,
-      blending: AdditiveBlending,
-      depthTest: false,
-      transparent: false,
-    });
+    geometry.setAttribute('position', new BufferAttribute(this.orbit.subsets[subset], 3));
+    if (this.morphProgress.value < 1) {
+      // Sets added during a morph, like when the counts change, morph from where they already are
+      geometry.setAttribute(
+        MORPH_FROM_ATTRIBUTE,
+        new BufferAttribute(this.orbit.subsets[subset], 3)
+      );
+    }
 
-    materials.color.setHSL(...hsvToHsl(this.hueValues[subset], DEF_SATURATION, DEF_BRIGHTNESS));
+    const materials = this.createParticleMaterial();
 
     const particles = new Points(geometry, materials);
     particles.position.x = 0;
@@ -292,19 +520,94 @@ export default class Hopalong {
       particles,
     };
 
+    this.applyColors(particleSet, this.subsetColors);
+
     this.scene.add(particles);
     this.particleSets.push(particleSet);
   }
 
+  createParticleMaterial() {
+    if (this.shaderParticles && this.renderer.capabilities.isWebGL2) {
+      return new ParticleShaderMaterial({
+        map: this.texture,
+        size: SPRITE_SIZE,
+        fadeDistance: LEVEL_DEPTH,
+        iterationGradient: this.iterationGradient,
+        shared: this.particleUniforms,
+      });
+    }
+    // Updating from ParticleSystem to points
+    // https://github.com/mrdoob/three.js/issues/4065
+    return createMorphPointsMaterial(
+      {
+        size: SPRITE_SIZE,
+        map: this.texture,
+        blending: AdditiveBlending,
+        depthTest: false,
+        transparent: false,
+      },
+      this.morphProgress
+    );
+  }
+
+  /**
+   * Replaces every particle set, so they pick up a different material
+   */
+  rebuildParticleSets() {
+    for (const { particles, myMaterial } of this.particleSets) {
+      this.scene.remove(particles);
+      particles.geometry.dispose();
+      myMaterial.dispose();
+    }
+    this.particleSets = [];
+    this.syncParticleSets();
+  }
+
+  /**
+   * Colours the particle set by its subset, shader particles may blend into the next subset
+   */
+  applyColors({ myMaterial, mySubset }: HopalongParticleSet, colors: RGB[]) {
+    const color = colors[mySubset];
+    if (!color) {
+      return;
+    }
+    myMaterial.color.setRGB(...color, SRGBColorSpace);
+    if (myMaterial instanceof ParticleShaderMaterial) {
+      myMaterial.colorEnd.setRGB(...colors[(mySubset + 1) % colors.length], SRGBColorSpace);
+    }
+  }
+
   addEventListeners() {
-    // Setup listeners
-    document.addEventListener('mousemove', this.onDocumentMouseMove, false);
-    document.addEventListener('touchstart', this.onDocumentTouchStart, false);
-    document.addEventListener('touchmove', this.onDocumentTouchMove, false);
-    document.addEventListener('keydown', this.onKeyDown, false);
+    // Setup listeners, they are typed for the document as elements get the same events
+    const target = this.eventTarget as Document;
+    target.addEventListener('mousemove', this.onMouseMove, false);
+    target.addEventListener('touchstart', this.onTouch, false);
+    target.addEventListener('touchmove', this.onTouch, false);
+    target.addEventListener('touchend', this.onTouch, false);
+    target.addEventListener('touchcancel', this.onTouch, false);
+    target.addEventListener('keydown', this.onKeyDown, false);
     window.addEventListener('gamepadconnected', this.onControllerConnected, false);
     window.addEventListener('gamepaddisconnected', this.onControllerDisconnected, false);
-    window.addEventListener('resize', this.onWindowResize, false);
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.onResize());
+      this.resizeObserver.observe(this.container);
+    } else {
+      window.addEventListener('resize', this.onResize, false);
+    }
+  }
+
+  removeEventListeners() {
+    const target = this.eventTarget as Document;
+    target.removeEventListener('mousemove', this.onMouseMove, false);
+    target.removeEventListener('touchstart', this.onTouch, false);
+    target.removeEventListener('touchmove', this.onTouch, false);
+    target.removeEventListener('touchend', this.onTouch, false);
+    target.removeEventListener('touchcancel', this.onTouch, false);
+    target.removeEventListener('keydown', this.onKeyDown, false);
+    window.removeEventListener('gamepadconnected', this.onControllerConnected, false);
+    window.removeEventListener('gamepaddisconnected', this.onControllerDisconnected, false);
+    this.resizeObserver?.disconnect();
+    window.removeEventListener('resize', this.onResize, false);
   }
 
   animate() {
@@ -314,14 +617,30 @@ export default class Hopalong {
       return;
     }
     requestAnimationFrame(this.animate);
-    this.stats.begin();
-    this.render();
-    this.stats.end();
+    if (this.offlineRendering || this.following) {
+      return;
+    }
+    this.stats?.begin();
+    const delta = Math.min(this.clock.getDelta(), MAX_FRAME_DELTA);
+    this.render(delta);
+    this.stats?.end();
+    if (this.effects?.monitor(delta)) {
+      this.fireSettingsChange();
+    }
   }
 
-  render() {
+  /**
+   * Advances the flight by `delta` seconds and draws the frame
+   */
+  render(delta: number) {
+    // Followers are steered by the leader, whose movement includes its audio
+    if (!this.following) {
+      this.updateInputs(delta);
+      this.updateAudio(delta);
+    }
+    const easing = 1 - Math.pow(1 - CAMERA_EASING, delta);
     if (this.camera.position.x >= -CAMERA_BOUND && this.camera.position.x <= CAMERA_BOUND) {
-      this.camera.position.x += (this.getMouseX() - this.camera.position.x) * 0.05;
+      this.camera.position.x += (this.getMouseX() - this.camera.position.x) * easing;
       if (this.camera.position.x < -CAMERA_BOUND) {
         this.camera.position.x = -CAMERA_BOUND;
       }
@@ -330,7 +649,7 @@ export default class Hopalong {
       }
     }
     if (this.camera.position.y >= -CAMERA_BOUND && this.camera.position.y <= CAMERA_BOUND) {
-      this.camera.position.y += (-this.getMouseY() - this.camera.position.y) * 0.05;
+      this.camera.position.y += (-this.getMouseY() - this.camera.position.y) * easing;
       if (this.camera.position.y < -CAMERA_BOUND) {
         this.camera.position.y = -CAMERA_BOUND;
       }
@@ -340,13 +659,26 @@ export default class Hopalong {
     }
 
     this.camera.lookAt(this.scene.position);
+    if (this.view.mode === 'angle') {
+      this.camera.rotateY(viewYaw(this.view, this.camera.fov, this.camera.aspect));
+    }
+    const speed = this.speed * (this.audioResponse?.speedFactor ?? 1);
+    const rotationSpeed = this.rotationSpeed + (this.audioResponse?.rotationOffset ?? 0);
+
+    if (!this.following) {
+      this.advanceRegeneration(delta, speed);
+    }
+
+    if (this.morphProgress.value < 1) {
+      this.updateMorph(delta);
+    }
 
     // update particle positions
     // for (let i = 0; i < this.scene.children.length; i++) {
     for (const particleSet of this.particleSets) {
-      const { particles, myMaterial, mySubset } = particleSet;
-      particles.position.z += this.speed;
-      particles.rotation.z += this.rotationSpeed;
+      const { particles, mySubset } = particleSet;
+      particles.position.z += speed * delta;
+      particles.rotation.z += rotationSpeed * delta;
 
       // if the particle level has passed the fade distance
       if (particles.position.z > this.camera.position.z) {
@@ -355,125 +687,299 @@ export default class Hopalong {
 
         if (particleSet.needsUpdate) {
           // update the geometry and color
-          const vertices = this.orbit.subsets[mySubset].map(({ vertex }) => vertex);
-          const geometry = particleSet.particles.geometry;
-
-          geometry.setFromPoints(vertices);
-          particles.geometry.attributes.position.needsUpdate = true;
+          this.updateParticlePositions(particleSet, this.orbit.subsets[mySubset]);
 
-          myMaterial.color.setHSL(
-            ...hsvToHsl(this.hueValues[mySubset], DEF_SATURATION, DEF_BRIGHTNESS)
-          );
+          this.applyColors(particleSet, this.subsetColors);
           particleSet.needsUpdate = false;
         }
       }
     }
+    if (this.retiredOrbit && !this.particleSets.some(({ needsUpdate }) => needsUpdate)) {
+      this.recycleOrbitPositions(this.retiredOrbit.positions);
+      this.retiredOrbit = undefined;
+    }
 
-    this.renderer.render(this.scene, this.camera);
+    if (this.effects?.active) {
+      this.effects.render(delta);
+    } else {
+      this.renderer.render(this.scene, this.camera);
+    }
+    this.emit('frame', delta, { speed, rotationSpeed, x: this.mouseX, y: this.mouseY });
+  }
+
+  updateParticlePositions({ particles }: HopalongParticleSet, positions: Float32Array) {
+    const { geometry } = particles;
+    // Replacing the positions ends any morph
+    geometry.deleteAttribute(MORPH_FROM_ATTRIBUTE);
+    const attribute = geometry.getAttribute('position') as BufferAttribute;
+    if (attribute.count * attribute.itemSize === positions.length) {
+      // Point the attribute at the new data, the GPU buffer is reused since the size is unchanged
+      attribute.array = positions;
+      attribute.needsUpdate = true;
+    } else {
+      // Release the GPU buffers of the old size before attaching the new data
+      geometry.dispose();
+      geometry.setAttribute('position', new BufferAttribute(positions, 3));
+    }
   }
 
   ///////////////////////////////////////////////
   // Hopalong Orbit Generator
   ///////////////////////////////////////////////
 
+  /**
+   * Moves on to the next orbit when the regeneration schedule says so, `speed` is the speed
+   * particles flew at in this frame
+   */
+  advanceRegeneration(delta: number, speed: number) {
+    switch (this.regenerationMode) {
+      case 'interval':
+        this.sinceRegeneration += delta;
+        if (this.sinceRegeneration >= this.regenerationInterval) {
+          this.updateOrbit();
+        }
+        break;
+      case 'levelCycle':
+        // Every level has passed the camera once particles have flown the depth of all levels
+        this.sinceRegeneration += speed * delta;
+        if (this.sinceRegeneration >= this.numLevels * LEVEL_DEPTH) {
+          this.updateOrbit();
+        }
+        break;
+      case 'frozen':
+      case 'manual':
+        break;
+    }
+  }
+
+  cycleRegenerationMode() {
+    const index = REGENERATION_MODES.indexOf(this.regenerationMode);
+    this.setRegenerationMode(REGENERATION_MODES[(index + 1) % REGENERATION_MODES.length]);
+    this.fireSettingsChange();
+  }
+
+  setRegenerationMode(mode: RegenerationMode) {
+    if (mode !== this.regenerationMode) {
+      this.regenerationMode = mode;
+      this.sinceRegeneration = 0;
+    }
+  }
+
+  /**
+   * Moves on to the next orbit of the seed's sequence
+   */
   updateOrbit() {
+    this.sinceRegeneration = 0;
+    this.seed = deriveSeed(this.seed, SeedStream.Next);
+    if (this.randomizeAttractor) {
+      const random = this.createOrbitRandom(SeedStream.Attractor);
+      this.attractor = ATTRACTOR_NAMES[Math.floor(random() * ATTRACTOR_NAMES.length)];
+    }
     this.generateOrbit(this.numSubsets, this.numPointsSubset);
-    this.generateHues(this.numSubsets);
-    for (const particleSet of this.particleSets.values()) {
-      particleSet.needsUpdate = true;
+  }
+
+  createOrbitRandom(stream: SeedStream): Random {
+    return createRandom(deriveSeed(this.seed, stream));
+  }
+
+  generateColors(numSubsets: number, random: Random) {
+    const colors = generatePaletteColors(
+      PALETTES[this.palette],
+      numSubsets,
+      random,
+      this.paletteStops
+    );
+    this.subsetColors = colors.map((color) => shiftHue(color, this.hueShift));
+  }
+
+  setAudioInput(input: AudioInput | undefined) {
+    this.audioInput = input;
+    this.audioEngine.reset();
+    this.audioResponse = undefined;
+  }
+
+  updateAudio(delta: number) {
+    if (!this.audioInput) {
+      return;
+    }
+    const { sampleRate } = this.audioInput;
+    this.audioResponse = this.audioEngine.process(this.audioInput.read(), sampleRate, delta);
+    if (!this.audioResponse.beat) {
+      return;
+    }
+    switch (this.audioEngine.mapping.audioBeatAction) {
+      case 'nextOrbit':
+        // Beats come faster than orbits are generated, skip them until the last one arrived
+        if (this.appliedOrbitRequest === this.latestOrbitRequest) {
+          this.updateOrbit();
+        }
+        break;
+      case 'hueShift':
+        this.hueShift = (this.hueShift + BEAT_HUE_SHIFT) % 360;
+        this.applyPalette();
+        break;
+      case 'none':
+        break;
     }
   }
 
-  generateHues(numSubsets: number) {
-    this.hueValues = new Array(numSubsets).fill(0).map(() => Math.random());
+  /**
+   * Recolours the current orbit straight away, rather than as levels wrap around
+   */
+  applyPalette() {
+    this.generateColors(this.orbit.subsets.length, this.createOrbitRandom(SeedStream.Hues));
+    for (const particleSet of this.particleSets) {
+      this.applyColors(particleSet, this.subsetColors);
+    }
   }
 
   generateOrbit(numSubsets: number, numPointsSubset: number) {
-    this.prepareOrbit();
-
-    const { a, b, c, d, e } = this.orbitParams;
-    // Using local vars should be faster
-    const al = a;
-    const bl = b;
-    const cl = c;
-    const dl = d;
-    const el = e;
-    const subsets = this.orbit.subsets;
-    const scale_factor_l = SCALE_FACTOR;
-
-    let xMin = 0,
-      xMax = 0,
-      yMin = 0,
-      yMax = 0;
-    const choice = Math.random();
-
-    for (let s = 0; s < numSubsets; s++) {
-      // Use a different starting point for each orbit subset
-      let x = s * 0.005 * (0.5 - Math.random());
-      let y = s * 0.005 * (0.5 - Math.random());
-      let z: number;
-      let x1: number;
-
-      const curSubset = subsets[s];
-
-      for (let i = 0; i < numPointsSubset; i++) {
-        // Iteration formula (generalization of the Barry Martin's original one)
-
-        const [xn, yn] = hopalong(x, y, a, b, c)
-        x = xn;
-        y = yn;
-
-        curSubset[i].x = x;
-        curSubset[i].y = y;
-
-        if (x < xMin) {
-          xMin = x;
-        } else if (x > xMax) {
-          xMax = x;
-        }
-        if (y < yMin) {
-          yMin = y;
-        } else if (y > yMax) {
-          yMax = y;
-        }
-      }
+    this.shuffleParams(this.createOrbitRandom(SeedStream.Params));
+    const { seed, attractor, orbitParams } = this;
+    this.emit('orbit', { seed, attractor, orbitParams: { ...orbitParams } });
+
+    // The spare buffer may still be in use by a pending request, if so allocate a new one
+    const size = numSubsets * numPointsSubset * 3;
+    const positions =
+      this.spareOrbitPositions?.length === size
+        ? this.spareOrbitPositions
+        : createOrbitPositions(numSubsets, numPointsSubset);
+    this.spareOrbitPositions = undefined;
+
+    const request: OrbitRequest = {
+      id: ++this.latestOrbitRequest,
+      attractor: this.attractor,
+      params: this.orbitParams,
+      seed: this.seed,
+      numSubsets,
+      numPointsSubset,
+      positions,
+    };
+    if (this.orbitWorker) {
+      this.orbitWorker.postMessage(request, [positions.buffer]);
+    } else {
+      this.onOrbitGenerated({ id: request.id, orbit: computeOrbit(request) });
     }
+  }
 
-    const scaleX = (2 * scale_factor_l) / (xMax - xMin);
-    const scaleY = (2 * scale_factor_l) / (yMax - yMin);
+  onOrbitWorkerError() {
+    // Fall back to generating orbits on the main thread
+    this.orbitWorker?.terminate();
+    this.orbitWorker = undefined;
+    this.generateOrbit(this.numSubsets, this.numPointsSubset);
+  }
 
-    this.orbit.xMin = xMin;
-    this.orbit.xMax = xMax;
-    this.orbit.yMin = yMin;
-    this.orbit.yMax = yMax;
-    this.orbit.scaleX = scaleX;
-    this.orbit.scaleY = scaleY;
+  onOrbitGenerated({ id, orbit }: OrbitResponse) {
+    if (this.destroyed) {
+      return;
+    }
+    if (id !== this.latestOrbitRequest) {
+      this.recycleOrbitPositions(orbit.positions);
+      return;
+    }
+    const previous = this.orbit;
+    const previousColors = this.subsetColors;
+    // Morphing needs a position for every particle on both sides
+    const morph = this.morphOrbits && previous.positions.length === orbit.positions.length;
+    if (morph) {
+      // Particles morph from the previous orbit, so the one before it is free again
+      if (this.previousOrbit) {
+        this.recycleOrbitPositions(this.previousOrbit.positions);
+      }
+      this.previousOrbit = previous;
+      // Every particle set morphs from the previous orbit, so none show a retired one any more
+      this.retiredOrbit = undefined;
+    } else {
+      // Particle sets switch to the new orbit as they wrap around, until then they show this one
+      this.retiredOrbit = previous;
+      this.previousOrbit = undefined;
+      this.morphProgress.value = 1;
+    }
+    this.orbit = orbit;
+    this.particleUniforms.pointCount.value = this.numPointsSubset;
+    this.generateColors(this.numSubsets, this.createOrbitRandom(SeedStream.Hues));
+    if (morph) {
+      this.startMorph(previous, previousColors);
+    } else {
+      for (const particleSet of this.particleSets.values()) {
+        particleSet.needsUpdate = true;
+      }
+    }
+    this.syncParticleSets();
+    this.fireSettingsChange();
 
-    // Normalize and update vertex data
-    for (let s = 0; s < this.numSubsets; s++) {
-      const curSubset = subsets[s];
-      for (let i = 0; i < numPointsSubset; i++) {
-        curSubset[i].vertex.setX(scaleX * (curSubset[i].x - xMin) - scale_factor_l);
-        curSubset[i].vertex.setY(scaleY * (curSubset[i].y - yMin) - scale_factor_l);
+    this.appliedOrbitRequest = id;
+    this.orbitWaiters.forEach((resolve) => resolve());
+    this.orbitWaiters = [];
+  }
+
+  /**
+   * Points every particle set at the current orbit, blending in from the previous one
+   */
+  startMorph(previous: Orbit<number>, previousColors: RGB[]) {
+    for (const particleSet of this.particleSets) {
+      const { geometry } = particleSet.particles;
+      const from = previous.subsets[particleSet.mySubset];
+      const fromAttribute = geometry.getAttribute(MORPH_FROM_ATTRIBUTE) as BufferAttribute;
+      if (fromAttribute) {
+        fromAttribute.array = from;
+        fromAttribute.needsUpdate = true;
+      } else {
+        geometry.setAttribute(MORPH_FROM_ATTRIBUTE, new BufferAttribute(from, 3));
       }
+      const attribute = geometry.getAttribute('position') as BufferAttribute;
+      attribute.array = this.orbit.subsets[particleSet.mySubset];
+      attribute.needsUpdate = true;
+      particleSet.needsUpdate = false;
     }
+    this.morphFromColors = previousColors;
+    this.morphElapsed = 0;
+    this.morphProgress.value = 0;
   }
 
-  prepareOrbit() {
-    this.shuffleParams();
-    this.orbit.xMin = 0;
-    this.orbit.xMax = 0;
-    this.orbit.yMin = 0;
-    this.orbit.yMax = 0;
+  updateMorph(delta: number) {
+    this.morphElapsed += delta;
+    const t = Math.min(this.morphElapsed / this.morphDuration, 1);
+    // Ease in and out, so particles don't start or stop abruptly
+    const eased = t * t * (3 - 2 * t);
+    this.morphProgress.value = eased;
+    const colors = this.subsetColors.map((to, subset): RGB => {
+      const from = this.morphFromColors[subset] || to;
+      const [r, g, b] = from.map((component, i) => component + (to[i] - component) * eased);
+      return [r, g, b];
+    });
+    for (const particleSet of this.particleSets) {
+      this.applyColors(particleSet, colors);
+    }
   }
 
-  shuffleParams() {
+  /**
+   * Resolves once the most recently requested orbit is displayed
+   */
+  waitForOrbit(): Promise<void> {
+    if (this.appliedOrbitRequest === this.latestOrbitRequest) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.orbitWaiters.push(resolve));
+  }
+
+  recycleOrbitPositions(positions: Float32Array) {
+    if (positions.length === this.numSubsets * this.numPointsSubset * 3) {
+      this.spareOrbitPositions = positions;
+    }
+  }
+
+  shuffleParams(random: Random) {
+    const { a, b, c, d, e } = ATTRACTORS[this.attractor].paramRanges;
+    const pick = ([min, max]: [number, number]) => min + random() * (max - min);
+    // Every parameter is picked even when pinned, so pinning doesn't shift the sequence
     this.orbitParams = {
-      a: A_MIN + Math.random() * (A_MAX - A_MIN),
-      b: B_MIN + Math.random() * (B_MAX - B_MIN),
-      c: C_MIN + Math.random() * (C_MAX - C_MIN),
-      d: D_MIN + Math.random() * (D_MAX - D_MIN),
-      e: E_MIN + Math.random() * (E_MAX - E_MIN),
+      a: pick(a),
+      b: pick(b),
+      c: pick(c),
+      d: pick(d),
+      e: pick(e),
+      ...this.pinnedParams,
     };
   }
 
@@ -481,32 +987,25 @@ export default class Hopalong {
   // Event listeners
   ///////////////////////////////////////////////
 
-  onDocumentMouseMove(event: MouseEvent) {
-    if (this.mouseLocked) {
-      return;
-    }
-    this.mouseX = event.clientX - this.windowHalfX;
-    this.mouseY = event.clientY - this.windowHalfY;
-  }
-
-  onDocumentTouchStart(event: TouchEvent) {
-    if (this.mouseLocked) {
+  onMouseMove(event: MouseEvent) {
+    if (this.mouseLocked || event.timeStamp - this.lastTouchTime < TOUCH_MOUSE_DELAY) {
       return;
     }
-    if (event.touches.length == 1) {
-      this.mouseX = event.touches[0].pageX - this.windowHalfX;
-      this.mouseY = event.touches[0].pageY - this.windowHalfY;
-    }
+    const { left, top } = this.container.getBoundingClientRect();
+    this.mouseX = event.clientX - left - this.width / 2;
+    this.mouseY = event.clientY - top - this.height / 2;
   }
 
-  onDocumentTouchMove(event: TouchEvent) {
-    if (this.mouseLocked) {
-      return;
-    }
-    if (event.touches.length == 1) {
-      this.mouseX = event.touches[0].pageX - this.windowHalfX;
-      this.mouseY = event.touches[0].pageY - this.windowHalfY;
-    }
+  /**
+   * Passes the fingers on the canvas to the gestures, touches that start on the menus are left
+   * to them. Touches move the camera relative to where it is, so they ignore the mouse lock.
+   */
+  onTouch(event: TouchEvent) {
+    this.lastTouchTime = event.timeStamp;
+    const touches = Array.from(event.touches)
+      .filter(({ target }) => target === this.renderer.domElement)
+      .map(({ identifier, pageX, pageY }) => ({ id: identifier, x: pageX, y: pageY }));
+    this.touchSource.onTouches(touches, event.timeStamp / 1000);
   }
 
   setMouseLock(locked?: boolean) {
@@ -534,8 +1033,59 @@ export default class Hopalong {
     return this.mouseY;
   }
 
+  /**
+   * Changes any of the settings, the rest are left as they are. Doesn't fire a settings event.
+   */
   applySettings(settings: Partial<SimSettings>) {
-    const { speed, rotationSpeed, mouseLocked, cameraFov } = settings;
+    const { speed, rotationSpeed, mouseLocked, cameraFov, attractor, randomizeAttractor } =
+      settings;
+    const { seed, pinnedParams, exportResolution, recordingMode, recordingDuration } = settings;
+    const { palette, paletteStops, morphOrbits, morphDuration } = settings;
+    const { regenerationMode, regenerationInterval } = settings;
+    const { shaderParticles, iterationGradient } = settings;
+    const effectSettings = pickSettings(settings, DEFAULT_EFFECT_SETTINGS);
+    this.smoothing = { ...this.smoothing, ...pickSettings(settings, DEFAULT_SMOOTHING_SETTINGS) };
+    const audioMapping = pickSettings(settings, DEFAULT_AUDIO_MAPPING);
+    if (Object.keys(audioMapping).length > 0) {
+      this.audioEngine.mapping = { ...this.audioEngine.mapping, ...audioMapping };
+    }
+    if (Object.keys(effectSettings).length > 0) {
+      this.effectSettings = { ...this.effectSettings, ...effectSettings };
+      this.effects?.applySettings(this.effectSettings);
+    }
+    if (typeof iterationGradient !== 'undefined') {
+      this.iterationGradient = iterationGradient;
+      for (const { myMaterial } of this.particleSets) {
+        if (myMaterial instanceof ParticleShaderMaterial) {
+          myMaterial.uniforms.iterationGradient.value = iterationGradient ? 1 : 0;
+        }
+      }
+    }
+    if (typeof shaderParticles !== 'undefined' && shaderParticles !== this.shaderParticles) {
+      this.shaderParticles = shaderParticles;
+      this.rebuildParticleSets();
+    }
+    if (typeof regenerationMode !== 'undefined') {
+      this.setRegenerationMode(regenerationMode);
+    }
+    if (typeof regenerationInterval !== 'undefined') {
+      this.regenerationInterval = regenerationInterval;
+    }
+    if (typeof morphOrbits !== 'undefined') {
+      this.morphOrbits = morphOrbits;
+    }
+    if (typeof morphDuration !== 'undefined') {
+      this.morphDuration = morphDuration;
+    }
+    if (typeof exportResolution !== 'undefined') {
+      this.exportResolution = exportResolution;
+    }
+    if (typeof recordingMode !== 'undefined') {
+      this.recordingMode = recordingMode;
+    }
+    if (typeof recordingDuration !== 'undefined') {
+      this.recordingDuration = recordingDuration;
+    }
     if (typeof speed !== 'undefined') {
       this.speed = speed;
     }
@@ -548,6 +1098,31 @@ export default class Hopalong {
     if (typeof cameraFov !== 'undefined') {
       this.setCameraFOV(cameraFov);
     }
+    if (typeof randomizeAttractor !== 'undefined') {
+      this.randomizeAttractor = randomizeAttractor;
+    }
+    // Regenerate the current orbit, rather than moving on to the next one
+    let regenerate = false;
+    if (typeof attractor !== 'undefined' && attractor !== this.attractor) {
+      this.attractor = attractor;
+      regenerate = true;
+    }
+    if (typeof seed !== 'undefined' && seed !== this.seed) {
+      this.seed = seed;
+      regenerate = true;
+    }
+    if (typeof pinnedParams !== 'undefined') {
+      this.pinnedParams = pinnedParams;
+      regenerate = true;
+    }
+    if (regenerate) {
+      this.generateOrbit(this.numSubsets, this.numPointsSubset);
+    }
+    if (typeof palette !== 'undefined' || typeof paletteStops !== 'undefined') {
+      this.palette = palette ?? this.palette;
+      this.paletteStops = paletteStops ?? this.paletteStops;
+      this.applyPalette();
+    }
     const { levelCount, subsetCount, pointsPerSubset } = settings;
     const advancedSettings = { levelCount, subsetCount, pointsPerSubset };
     if (Object.values(advancedSettings).some((value) => typeof value !== 'undefined')) {
@@ -556,15 +1131,33 @@ export default class Hopalong {
   }
 
   fireSettingsChange() {
-    this.onSettingsUpdate(this.getSettings());
+    this.emit('settings', { ...this.getSettings(), ...this.getState() });
   }
 
   getSettings(): SimSettings {
-    const { speed, rotationSpeed, mouseLocked } = this;
+    const { speed, rotationSpeed, mouseLocked, attractor, randomizeAttractor, seed } = this;
     return {
       speed,
       rotationSpeed,
       mouseLocked,
+      attractor,
+      randomizeAttractor,
+      seed,
+      pinnedParams: { ...this.pinnedParams },
+      regenerationMode: this.regenerationMode,
+      regenerationInterval: this.regenerationInterval,
+      morphOrbits: this.morphOrbits,
+      morphDuration: this.morphDuration,
+      ...this.effectSettings,
+      ...this.audioEngine.mapping,
+      ...this.smoothing,
+      shaderParticles: this.shaderParticles,
+      iterationGradient: this.iterationGradient,
+      palette: this.palette,
+      paletteStops: [...this.paletteStops],
+      exportResolution: this.exportResolution,
+      recordingMode: this.recordingMode,
+      recordingDuration: this.recordingDuration,
       cameraFov: this.camera.fov,
       levelCount: this.numLevels,
       subsetCount: this.numSubsets,
@@ -572,6 +1165,15 @@ export default class Hopalong {
     };
   }
 
+  /** What the visualiser worked out by itself, from the orbit and the GPU */
+  getState(): SimState {
+    return {
+      orbitParams: { ...this.orbitParams },
+      effectsSupported: !!this.effects,
+      effectsReduced: !!this.effects && this.effects.degradeLevel > 0,
+    };
+  }
+
   changeFov(delta: number) {
     const newFov = this.camera.fov + delta;
     this.setCameraFOV(newFov);
@@ -610,7 +1212,15 @@ export default class Hopalong {
     this.rotationSpeed = DEFAULT_ROTATION_SPEED;
     this.camera.fov = DEFAULT_FOV;
     this.mouseLocked = false;
-
+    this.randomizeAttractor = false;
+    this.pinnedParams = {};
+    this.attractor = DEFAULT_ATTRACTOR;
+    this.palette = DEFAULT_PALETTE;
+    this.applyPalette();
+    this.setRegenerationMode(DEFAULT_REGENERATION_MODE);
+    this.regenerationInterval = DEFAULT_REGENERATION_INTERVAL;
+
+    // Generates the orbit for the default attractor along with the default counts
     this.setLevelSubsetCount({
       levelCount: DEFAULT_LEVELS,
       subsetCount: DEFAULT_SUBSETS,
@@ -621,9 +1231,9 @@ export default class Hopalong {
 
   getBounds(): Bounds {
     return {
-      width: this.windowHalfX * 2,
-      height: this.windowHalfY * 2,
-    }
+      width: this.width,
+      height: this.height,
+    };
   }
 
   getCurrentMovement(): Movement {
@@ -631,8 +1241,8 @@ export default class Hopalong {
       speed: this.speed,
       rotationSpeed: this.rotationSpeed,
       x: this.mouseX,
-      y: this.mouseY
-    }
+      y: this.mouseY,
+    };
   }
 
   applyMovement(movement: Movement) {
@@ -642,73 +1252,236 @@ export default class Hopalong {
     this.mouseY = movement.y;
   }
 
-  updateGamepadMovement(gamepad: Gamepad) {
-    const movementStrategyExecutor = buildGamepadMovementStrategy(gamepad);
+  setGamepadProfiles(profiles: GamepadProfiles) {
+    this.gamepadSource.profiles = profiles;
+  }
+
+  /**
+   * Lets only the gamepad at `index` control the flight, or every gamepad when null
+   */
+  setFlightGamepad(index: number | null) {
+    this.gamepadSource.flightGamepad = index;
+  }
+
+  /**
+   * Adds a source that steers the flight, later sources take precedence over earlier ones
+   */
+  addInputSource(source: InputSource) {
+    this.inputSources.push(source);
+  }
+
+  removeInputSource(source: InputSource) {
+    this.inputSources = this.inputSources.filter((current) => current !== source);
+  }
+
+  /**
+   * Steers the flight with the input sources and records the resulting movement
+   */
+  updateInputs(delta: number) {
     const bounds = this.getBounds();
+    const current = this.getCurrentMovement();
+    let target: Movement | null = null;
+    let exact = false;
+    for (const source of this.inputSources) {
+      const movement = source.update(bounds, current, delta);
+      if (movement) {
+        target = movement;
+        exact = !!source.exact;
+      }
+    }
+    if (target) {
+      this.applyMovement(exact ? target : smoothMovement(current, target, this.smoothing, delta));
+      this.fireSettingsChange();
+    }
+    this.movementRecorder?.record(delta, this.getCurrentMovement());
+  }
 
-    const currentMovement = this.getCurrentMovement();
+  startMovementRecording() {
+    const { x, y } = this.camera.position;
+    this.movementRecorder = new MovementRecorder(
+      this.getSettings(),
+      { x, y },
+      this.getCurrentMovement()
+    );
+  }
 
-    const nextMovement = movementStrategyExecutor(bounds, currentMovement, gamepad);
+  /**
+   * Stops recording and returns the recorded flight, along with the settings it started with
+   */
+  stopMovementRecording(): MovementRecording | undefined {
+    const recording = this.movementRecorder?.finish();
+    this.movementRecorder = undefined;
+    return recording;
+  }
 
-    this.applyMovement(nextMovement);
-    this.fireSettingsChange();
+  /**
+   * Replays a recorded flight from its start, calling `onFinished` once it is over
+   */
+  playMovementRecording(recording: MovementRecording, onFinished: () => unknown) {
+    this.stopMovementPlayback();
+    this.applySettings(recording.settings);
+    this.applyMovement(recording.frames[0]);
+    this.camera.position.x = recording.camera.x;
+    this.camera.position.y = recording.camera.y;
+    this.movementPlayback = new PlaybackInputSource(recording, () => {
+      this.stopMovementPlayback();
+      onFinished();
+    });
+    this.addInputSource(this.movementPlayback);
   }
 
-  controllerLoop() {
-    const [ gamepad ] = navigator.getGamepads();
-    if(!this.controllerConnected || !gamepad) { return; }
+  stopMovementPlayback() {
+    if (this.movementPlayback) {
+      this.removeInputSource(this.movementPlayback);
+      this.movementPlayback = undefined;
+    }
+  }
 
-    this.updateGamepadMovement(gamepad);
+  /**
+   * Runs an action triggered by a key, a gamepad button or another input
+   */
+  performAction(action: HopalongAction) {
+    const actions: { [action in HopalongAction]: () => void } = {
+      fovUp: () => this.changeFov(FOV_DELTA),
+      fovDown: () => this.changeFov(-FOV_DELTA),
+      levelsUp: () => this.changeLevelSubset(1),
+      levelsDown: () => this.changeLevelSubset(-1),
+      pointsUp: () => this.changePointsPerSubset(POINTS_DELTA),
+      pointsDown: () => this.changePointsPerSubset(-POINTS_DELTA),
+      recenter: () => this.recenterCamera(),
+      reset: () => this.resetDefaults(),
+      nextOrbit: () => this.updateOrbit(),
+      cycleRegenerationMode: () => this.cycleRegenerationMode(),
+      exportImage: () => this.exportImage().catch(this.reportError),
+      toggleCursor: () => this.container.classList.toggle('hideCursor'),
+    };
+    actions[action]();
+  }
 
-    requestAnimationFrame(this.controllerLoop);
+  /**
+   * Hands the flight over to another window, which draws every frame with `followFrame`
+   */
+  setFollowing(following: boolean) {
+    this.following = following;
+    // The own loop picks up from now, rather than from the last frame it drew
+    this.clock.getDelta();
   }
 
-  stopMovement() {
-    this.speed = 0;
-    this.rotationSpeed = 0;
+  followFrame(delta: number, movement: Movement) {
+    this.applyMovement(movement);
+    this.stats?.begin();
+    this.render(delta);
+    this.stats?.end();
   }
 
-  initGamepadMode() {
-    this.controllerConnected = true;
-    this.stopMovement();
-    this.recenterCamera();
-    requestAnimationFrame(this.controllerLoop);
+  getFlightSnapshot(): FlightSnapshot {
+    const { x, y } = this.camera.position;
+    return {
+      camera: { x, y },
+      particles: this.particleSets.map(({ myLevel, mySubset, particles }) => [
+        myLevel,
+        mySubset,
+        particles.position.z,
+        particles.rotation.z,
+      ]),
+    };
   }
 
-  exitGamepadMode() {
-    this.controllerConnected = false;
+  /**
+   * Moves the camera and particles to where another window has them
+   */
+  applyFlightSnapshot({ camera, particles }: FlightSnapshot) {
+    this.camera.position.x = camera.x;
+    this.camera.position.y = camera.y;
+    const positions = new Map(
+      particles.map(([level, subset, z, rotation]) => [`${level}:${subset}`, { z, rotation }])
+    );
+    for (const { myLevel, mySubset, particles: points } of this.particleSets) {
+      const position = positions.get(`${myLevel}:${mySubset}`);
+      if (position) {
+        points.position.z = position.z;
+        points.rotation.z = position.rotation;
+      }
+    }
   }
 
-  onControllerConnected(e) {
-    this.controllerConnected = true;
-    this.initGamepadMode();
+  setView(view: SyncView) {
+    this.view = view;
+    this.applyView();
   }
 
-  onControllerDisconnected(e) {
-    this.controllerConnected = false;
+  /**
+   * Fits the camera to the window, and to this window's part of the panorama
+   */
+  applyView() {
+    const { width, height } = this;
+    this.camera.aspect = width / height;
+    if (this.view.mode === 'slice') {
+      const offset = viewOffset(this.view, width, height);
+      this.camera.setViewOffset(
+        offset.fullWidth,
+        offset.fullHeight,
+        offset.x,
+        offset.y,
+        offset.width,
+        offset.height
+      );
+    } else {
+      this.camera.clearViewOffset();
+    }
+  }
+
+  stopMovement() {
+    this.speed = 0;
+    this.rotationSpeed = 0;
+  }
+
+  onControllerConnected({ gamepad }: GamepadEvent) {
+    // Gamepads take over from a standstill, further ones join in
+    const others = this.gamepadSource
+      .getFlightGamepads()
+      .filter(({ index }) => index !== gamepad.index);
+    if (others.length === 0) {
+      this.stopMovement();
+      this.recenterCamera();
+    }
+  }
+
+  onControllerDisconnected({ gamepad }: GamepadEvent) {
+    this.gamepadSource.disconnect(gamepad.index);
   }
 
   onKeyDown(event: KeyboardEvent) {
+    // Typing into the menu shouldn't trigger shortcuts
+    const { target } = event;
+    if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement) {
+      return;
+    }
     const { key } = event;
     const keyNormalised = key.length === 1 ? key.toUpperCase() : key;
 
-    const settingsShortcuts: { [key: string]: () => void } = {
-      F: () => this.changeFov(FOV_DELTA),
-      G: () => this.changeFov(-FOV_DELTA),
-      '.': () => this.changeLevelSubset(1),
-      ',': () => this.changeLevelSubset(-1),
-      P: () => this.changePointsPerSubset(POINTS_DELTA),
-      O: () => this.changePointsPerSubset(-POINTS_DELTA),
-      H: () => document.body.classList.toggle('hideCursor'),
-      C: () => this.recenterCamera()
+    const settingsShortcuts: { [key: string]: HopalongAction } = {
+      F: 'fovUp',
+      G: 'fovDown',
+      '.': 'levelsUp',
+      ',': 'levelsDown',
+      P: 'pointsUp',
+      O: 'pointsDown',
+      H: 'toggleCursor',
+      C: 'recenter',
+      I: 'exportImage',
+      N: 'nextOrbit',
+      M: 'cycleRegenerationMode',
     };
 
-    if(keyNormalised in settingsShortcuts) {
-      settingsShortcuts[keyNormalised]();
+    if (keyNormalised in settingsShortcuts) {
+      this.performAction(settingsShortcuts[keyNormalised]);
       return;
     }
 
-    if(this.controllerConnected) return;
+    if (this.gamepadSource.isConnected()) {
+      return;
+    }
 
     const movementShortcuts: { [key: string]: () => void } = {
       ArrowUp: () => this.changeSpeed(SPEED_DELTA),
@@ -719,8 +1492,8 @@ export default class Hopalong {
       A: () => this.changeRotationSpeed(ROTATION_DELTA_EXTRA),
       ArrowRight: () => this.changeRotationSpeed(-ROTATION_DELTA),
       D: () => this.changeRotationSpeed(-ROTATION_DELTA_EXTRA),
-      R: () => this.resetDefaults(),
-      L: () => this.setMouseLock()
+      R: () => this.performAction('reset'),
+      L: () => this.setMouseLock(),
     };
 
     if (keyNormalised in movementShortcuts) {
@@ -728,13 +1501,70 @@ export default class Hopalong {
     }
   }
 
-  onWindowResize() {
-    this.windowHalfX = window.innerWidth / 2;
-    this.windowHalfY = window.innerHeight / 2;
-    this.camera.aspect = window.innerWidth / window.innerHeight;
-    this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setViewport(0, 0, window.innerWidth, window.innerHeight);
+  /**
+   * Fits the canvas to the container, hidden containers keep the last size
+   */
+  onResize() {
+    const { clientWidth, clientHeight } = this.container;
+    if (clientWidth === 0 || clientHeight === 0) {
+      return;
+    }
+    this.width = clientWidth;
+    this.height = clientHeight;
+    this.applyView();
+    this.renderer.setSize(clientWidth, clientHeight);
+    this.renderer.setViewport(0, 0, clientWidth, clientHeight);
+    this.effects?.setSize(clientWidth, clientHeight);
+  }
+
+  async exportImage() {
+    const { width, height } = EXPORT_RESOLUTIONS[this.exportResolution];
+    const { effects } = this;
+    const image = await renderImage({
+      renderer: this.renderer,
+      scene: this.scene,
+      camera: this.camera,
+      materials: this.particleSets.map(({ myMaterial }) => myMaterial),
+      width,
+      height,
+      createPasses: effects && ((tileScale) => effects.createImagePasses(tileScale)),
+    });
+    // Embed everything needed to recreate the orbit
+    const png = await addPngText(image, {
+      Software: 'Hopalong Redux',
+      Attractor: this.attractor,
+      Seed: this.seed.toString(),
+      Parameters: JSON.stringify(this.orbitParams),
+    });
+    downloadBlob(png, `hopalong-${this.seed}.png`);
+  }
+
+  /**
+   * Steps the flight with a fixed timestep instead of in real time, so every frame is captured
+   * no matter how long it takes to render. Stops early when `stopFrameSequence` is called.
+   */
+  async renderFrameSequence(onFrame: (frame: Blob, index: number) => unknown) {
+    const frameCount = Math.round(this.recordingDuration * RECORDING_FRAME_RATE);
+
+    this.offlineRendering = true;
+    this.offlineStopRequested = false;
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        if (this.offlineStopRequested || this.destroyed) {
+          break;
+        }
+        this.render(1 / RECORDING_FRAME_RATE);
+        await onFrame(await canvasToBlob(this.renderer.domElement), i);
+        // Orbits requested by the regeneration schedule are shown from the next frame on
+        await this.waitForOrbit();
+      }
+    } finally {
+      this.offlineRendering = false;
+    }
+  }
+
+  stopFrameSequence() {
+    this.offlineStopRequested = true;
   }
 
   setCameraFOV(fov: number) {
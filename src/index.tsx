@@ -1,27 +1,92 @@
 import autoBind from 'auto-bind';
 import React from 'react';
 import { render } from 'react-dom';
+import { debounce, throttle } from 'lodash';
 import 'reset.css';
 import './main.css';
 import Stats from 'stats.js';
 import { TextureLoader } from 'three';
+import { DEFAULT_ATTRACTOR } from './attractors';
+import { DEFAULT_EXPORT_RESOLUTION } from './capture';
 import App from './components/App';
+import { AudioInput, openAudioFile, openMicrophone } from './audio/input';
+import { DEFAULT_AUDIO_MAPPING } from './audio/mapping';
+import { DEFAULT_EFFECT_SETTINGS } from './effects';
+import { movementRecordingToBlob, parseMovementRecording } from './input/movementRecording';
+import { DEFAULT_SMOOTHING_SETTINGS } from './input/smoothing';
+import {
+  MidiMessage,
+  clearMidiBinding,
+  learnMidiBinding,
+  resolveMidiMessage,
+} from './midi/bindings';
+import { MidiConnection, openMidi } from './midi/input';
+import RemoteClient from './remote/client';
+import { createStateMessage, resolveRemoteMessage } from './remote/protocol';
+import FlightSync from './sync/flightSync';
+import MusicPlayer, { MusicState } from './music/player';
+import { DEFAULT_PALETTE, DEFAULT_PALETTE_STOPS } from './palettes';
 import Hopalong, {
   DEFAULT_FOV,
   DEFAULT_LEVELS,
+  DEFAULT_MORPH_DURATION,
   DEFAULT_POINTS_SUBSET,
+  DEFAULT_RECORDING_DURATION,
+  DEFAULT_RECORDING_MODE,
+  DEFAULT_REGENERATION_INTERVAL,
+  DEFAULT_REGENERATION_MODE,
   DEFAULT_ROTATION_SPEED,
   DEFAULT_SPEED,
   DEFAULT_SUBSETS,
 } from './hopalong';
 import textureUrl from './images/galaxy.png';
-import { Settings, SimSettings } from './types/hopalong';
+import { RECORDING_FRAME_RATE, StreamRecording, startStreamRecording } from './recorder';
+import {
+  AudioInputKind,
+  GamepadProfiles,
+  HopalongCommand,
+  MidiBinding,
+  MidiTarget,
+  Settings,
+  SimSettings,
+} from './types/hopalong';
 import Detector from './util/Detector';
+import { downloadBlob } from './util/download';
+import { settingsFromHash, settingsToHash } from './util/hashState';
+import {
+  loadGamepadProfiles,
+  loadMidiBindings,
+  loadSettings,
+  saveGamepadProfiles,
+  saveMidiBindings,
+  saveSettings,
+} from './util/storage';
+import { ZipWriter } from './util/zip';
+
+// Settings change every frame while steering, and browsers limit how often the history can be
+// replaced, so the link is updated at most this often, in milliseconds
+const HASH_UPDATE_INTERVAL = 1000;
+// Settings are saved once they settle for this long, or at least this often while they don't
+const SAVE_DELAY = 500;
+const SAVE_MAX_WAIT = 5000;
 
 class Program {
+  canvas: HTMLCanvasElement;
+  reactRoot: HTMLElement;
   hopalong: Hopalong;
   texture = new TextureLoader().load(textureUrl);
   stats = new Stats();
+  streamRecording?: StreamRecording;
+  audioInput?: AudioInput;
+  music = new MusicPlayer();
+  remote: RemoteClient;
+  sync: FlightSync;
+  gamepadProfiles = loadGamepadProfiles();
+  flightGamepad: number | null = null;
+  midi?: MidiConnection;
+  midiBindings = loadMidiBindings();
+  /** Target the next MIDI control that is moved or pressed is bound to */
+  midiLearning: MidiTarget | null = null;
   settings: Settings = {
     pointsPerSubset: DEFAULT_POINTS_SUBSET,
     levelCount: DEFAULT_LEVELS,
@@ -31,36 +96,98 @@ class Program {
     cameraFov: DEFAULT_FOV,
     isPlaying: false,
     mouseLocked: false,
+    attractor: DEFAULT_ATTRACTOR,
+    randomizeAttractor: false,
+    seed: 0,
+    pinnedParams: {},
+    regenerationMode: DEFAULT_REGENERATION_MODE,
+    regenerationInterval: DEFAULT_REGENERATION_INTERVAL,
+    ...DEFAULT_EFFECT_SETTINGS,
+    ...DEFAULT_AUDIO_MAPPING,
+    ...DEFAULT_SMOOTHING_SETTINGS,
+    shaderParticles: false,
+    iterationGradient: false,
+    morphOrbits: false,
+    morphDuration: DEFAULT_MORPH_DURATION,
+    palette: DEFAULT_PALETTE,
+    paletteStops: DEFAULT_PALETTE_STOPS,
+    exportResolution: DEFAULT_EXPORT_RESOLUTION,
+    recordingMode: DEFAULT_RECORDING_MODE,
+    recordingDuration: DEFAULT_RECORDING_DURATION,
+    recording: null,
+    audioInput: null,
+    flightInput: null,
+    captureError: null,
+    orbitParams: { a: 0, b: 0, c: 0, d: 0, e: 0 },
+    effectsSupported: false,
+    effectsReduced: false,
   };
 
-  constructor() {
+  constructor(canvas: HTMLCanvasElement, reactRoot: HTMLElement) {
     autoBind(this);
-    this.createHopalong();
+    this.canvas = canvas;
+    this.reactRoot = reactRoot;
+    this.music.subscribe(this.onMusicChange);
+    this.remote = new RemoteClient(this.onRemoteMessage);
+    this.sync = new FlightSync({
+      getHopalong: () => this.hopalong,
+      applySettings: this.applySettings,
+    });
+    // Links take precedence over the settings saved from the last visit
+    this.createHopalong({ ...loadSettings(), ...settingsFromHash(window.location.hash) });
+    window.addEventListener('hashchange', this.onHashChange, false);
+    // Settings still waiting to be saved aren't lost when the page is closed
+    window.addEventListener('pagehide', this.saveSettings.flush, false);
   }
 
   createHopalong(settings: Partial<SimSettings> = {}) {
     if (this.hopalong) {
       this.hopalong.destroy();
     }
-    const canvas = document.getElementById('render-canvas');
-    if (typeof canvas !== 'object' || !(canvas instanceof HTMLCanvasElement)) {
-      throw new Error('Unable to find canvas.');
-    }
-
     this.hopalong = new Hopalong({
       settings,
-      canvas,
+      canvas: this.canvas,
+      // The flight is steered from anywhere on the page, including over the menus
+      eventTarget: document,
       texture: this.texture,
       stats: this.stats,
-      onSettingsUpdate: (settings) => this.renderReact(settings),
     });
+    this.hopalong.on('settings', (settings) => {
+      this.renderReact(settings);
+      this.storeSettings(settings);
+      this.remote.sendState(createStateMessage({ ...this.settings, ...settings }));
+      this.sync.onSettingsChange(settings);
+    });
+    this.hopalong.on('error', ({ message }) => this.applySettings({ captureError: message }));
+    this.hopalong.on('frame', this.sync.onFrame);
+    this.hopalong.on('orbit', this.sync.onOrbit);
+    this.hopalong.setGamepadProfiles(this.gamepadProfiles);
+    this.hopalong.setFlightGamepad(this.flightGamepad);
+    this.sync.attach();
+    this.hopalong.fireSettingsChange();
+  }
+
+  storeSettings(settings: SimSettings) {
+    this.updateHash(settings);
+    this.saveSettings(settings);
   }
 
-  renderReact(settings: Settings) {
-    const reactRoot = document.getElementById('react-root');
-    if (!reactRoot) {
-      throw new Error('Unable to find React root.');
+  saveSettings = debounce(saveSettings, SAVE_DELAY, { maxWait: SAVE_MAX_WAIT });
+
+  updateHash = throttle((settings: SimSettings) => {
+    const hash = settingsToHash(settings);
+    if (hash !== window.location.hash) {
+      // Replace rather than push, so settings changes don't flood the history
+      window.history.replaceState(null, '', hash);
     }
+  }, HASH_UPDATE_INTERVAL);
+
+  onHashChange() {
+    // Pinned parameters missing from an edited hash are unpinned
+    this.applySettings({ pinnedParams: {}, ...settingsFromHash(window.location.hash) });
+  }
+
+  renderReact(settings: Partial<Settings>) {
     render(
       <App
         stats={this.stats}
@@ -68,27 +195,267 @@ class Program {
         onSettingsChange={this.applySettings}
         onCenter={() => this.hopalong.recenterCamera()}
         onReset={() => this.hopalong.resetDefaults()}
+        onExportImage={this.exportImage}
+        onNextOrbit={() => this.hopalong.updateOrbit()}
+        onToggleRecording={this.toggleRecording}
+        onStartAudio={this.startAudio}
+        onStopAudio={this.stopAudio}
+        onToggleFlightRecording={this.toggleFlightRecording}
+        onPlayFlight={this.playFlight}
+        onStopFlightPlayback={this.stopFlightPlayback}
+        music={this.music}
+        remote={this.remote}
+        sync={this.sync}
+        gamepadProfiles={this.gamepadProfiles}
+        onGamepadProfilesChange={this.updateGamepadProfiles}
+        flightGamepad={this.flightGamepad}
+        onFlightGamepadChange={this.updateFlightGamepad}
+        midiProps={{
+          connected: !!this.midi,
+          inputs: this.midi ? this.midi.getInputNames() : [],
+          bindings: this.midiBindings,
+          learning: this.midiLearning,
+          onConnect: this.startMidi,
+          onLearn: this.learnMidi,
+          onClear: (target) => this.updateMidiBindings(clearMidiBinding(this.midiBindings, target)),
+        }}
       />,
-      reactRoot
+      this.reactRoot
     );
   }
 
+  exportImage() {
+    this.applySettings({ captureError: null });
+    this.hopalong.performAction('exportImage');
+  }
+
+  toggleRecording() {
+    if (this.settings.recording) {
+      this.stopRecording();
+    } else {
+      this.startRecording();
+    }
+  }
+
+  async startRecording() {
+    const { recordingMode, recordingDuration } = this.settings;
+    const recording = {
+      mode: recordingMode,
+      startedAt: Date.now(),
+      duration: recordingDuration,
+      rendered: 0,
+    };
+    if (recordingMode === 'realtime') {
+      try {
+        this.streamRecording = startStreamRecording(this.hopalong.renderer.domElement);
+        this.applySettings({ recording, captureError: null });
+      } catch (e) {
+        this.applySettings({ captureError: errorMessage(e, 'Unable to start recording.') });
+      }
+      return;
+    }
+
+    this.applySettings({ recording, captureError: null });
+    const zip = new ZipWriter();
+    try {
+      await this.hopalong.renderFrameSequence(async (frame, index) => {
+        zip.add({
+          name: `frame-${String(index + 1).padStart(5, '0')}.png`,
+          data: new Uint8Array(await frame.arrayBuffer()),
+        });
+        this.applySettings({
+          recording: { ...recording, rendered: (index + 1) / RECORDING_FRAME_RATE },
+        });
+      });
+    } catch (e) {
+      this.applySettings({ captureError: errorMessage(e, 'Unable to render the recording.') });
+    } finally {
+      // Frames rendered before stopping early or failing are kept
+      if (zip.entryCount > 0) {
+        downloadBlob(zip.finish(), `hopalong-${this.hopalong.getSettings().seed}-frames.zip`);
+      }
+      this.applySettings({ recording: null });
+    }
+  }
+
+  async stopRecording() {
+    if (this.settings.recording?.mode === 'offline') {
+      // The frame sequence finishes its current frame and downloads what was rendered
+      this.hopalong.stopFrameSequence();
+      return;
+    }
+    const { streamRecording } = this;
+    this.streamRecording = undefined;
+    this.applySettings({ recording: null });
+    if (streamRecording) {
+      try {
+        const video = await streamRecording.stop();
+        downloadBlob(video, `hopalong-${this.hopalong.getSettings().seed}.webm`);
+      } catch (e) {
+        this.applySettings({ captureError: errorMessage(e, 'Unable to save the recording.') });
+      }
+    }
+  }
+
+  /**
+   * Makes the flight react to the microphone or an audio file, rejects when the input can't be
+   * opened
+   */
+  async startAudio(kind: AudioInputKind, file?: File) {
+    const input = kind === 'file' && file ? await openAudioFile(file) : await openMicrophone();
+    this.stopAudio();
+    this.audioInput = input;
+    this.hopalong.setAudioInput(input);
+    this.applySettings({ audioInput: kind });
+  }
+
+  stopAudio() {
+    if (this.audioInput) {
+      this.audioInput.stop();
+      this.audioInput = undefined;
+      this.hopalong.setAudioInput(undefined);
+    }
+    this.applySettings({ audioInput: null });
+  }
+
+  /**
+   * Starts recording the flight, or stops and downloads the recording
+   */
+  toggleFlightRecording() {
+    if (this.settings.flightInput !== 'recording') {
+      this.hopalong.startMovementRecording();
+      this.applySettings({ flightInput: 'recording' });
+      return;
+    }
+    const recording = this.hopalong.stopMovementRecording();
+    this.applySettings({ flightInput: null });
+    if (recording) {
+      downloadBlob(
+        movementRecordingToBlob(recording),
+        `hopalong-${this.hopalong.getSettings().seed}-flight.json`
+      );
+    }
+  }
+
+  /**
+   * Flies a recorded flight again, rejects when the file isn't one
+   */
+  async playFlight(file: File) {
+    const recording = parseMovementRecording(await file.text());
+    this.hopalong.playMovementRecording(recording, () => this.applySettings({ flightInput: null }));
+    this.applySettings({ flightInput: 'playback' });
+  }
+
+  stopFlightPlayback() {
+    this.hopalong.stopMovementPlayback();
+    this.applySettings({ flightInput: null });
+  }
+
+  updateGamepadProfiles(profiles: GamepadProfiles) {
+    this.gamepadProfiles = profiles;
+    this.hopalong.setGamepadProfiles(profiles);
+    saveGamepadProfiles(profiles);
+    this.renderReact(this.settings);
+  }
+
+  updateFlightGamepad(index: number | null) {
+    this.flightGamepad = index;
+    this.hopalong.setFlightGamepad(index);
+    this.renderReact(this.settings);
+  }
+
+  /**
+   * Listens to MIDI controllers, rejects when access is denied or unsupported
+   */
+  async startMidi() {
+    const midi = await openMidi(this.onMidiMessage, () => this.renderReact(this.settings));
+    this.midi?.stop();
+    this.midi = midi;
+    this.renderReact(this.settings);
+  }
+
+  learnMidi(target: MidiTarget | null) {
+    this.midiLearning = target;
+    this.renderReact(this.settings);
+  }
+
+  updateMidiBindings(bindings: MidiBinding[]) {
+    this.midiBindings = bindings;
+    saveMidiBindings(bindings);
+    this.renderReact(this.settings);
+  }
+
+  onMidiMessage(message: MidiMessage) {
+    if (this.midiLearning) {
+      const learned = learnMidiBinding(this.midiBindings, this.midiLearning, message);
+      if (learned) {
+        this.midiLearning = null;
+        this.updateMidiBindings(learned);
+      }
+      return;
+    }
+    this.runCommands(resolveMidiMessage(this.midiBindings, message, this.hopalong.getSettings()));
+  }
+
+  onRemoteMessage(text: string) {
+    this.runCommands(resolveRemoteMessage(text, this.hopalong.getSettings()));
+  }
+
+  runCommands(commands: HopalongCommand[]) {
+    for (const command of commands) {
+      if (command.type === 'settings') {
+        this.applySettings(command.settings);
+      } else {
+        this.hopalong.performAction(command.action);
+      }
+    }
+  }
+
+  /**
+   * Keeps the play button in step with the music, which stops by itself at the end of the
+   * playlist or when a track can't be played
+   */
+  onMusicChange({ playing }: MusicState) {
+    if (playing !== this.settings.isPlaying) {
+      this.applySettings({ isPlaying: playing });
+    }
+  }
+
   applySettings(partialSettings: Partial<Settings>) {
-    const { isPlaying, ...simSettings } = partialSettings;
+    const { isPlaying, recording, audioInput, flightInput, captureError, ...simSettings } =
+      partialSettings;
     this.hopalong.applySettings(simSettings);
     const settings: Settings = {
       ...this.settings,
       ...this.hopalong.getSettings(),
+      ...this.hopalong.getState(),
       isPlaying: isPlaying ?? this.settings.isPlaying,
+      recording: recording !== undefined ? recording : this.settings.recording,
+      audioInput: audioInput !== undefined ? audioInput : this.settings.audioInput,
+      flightInput: flightInput !== undefined ? flightInput : this.settings.flightInput,
+      captureError: captureError !== undefined ? captureError : this.settings.captureError,
     };
     this.settings = settings;
+    this.music.setPlaying(settings.isPlaying);
     this.renderReact(settings);
+    this.storeSettings(settings);
+    this.remote.sendState(createStateMessage(settings));
+    this.sync.onSettingsChange(settings);
   }
 }
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
 document.addEventListener('DOMContentLoaded', () => {
   const detector = new Detector();
   if (!detector.webgl) {
     detector.addGetWebGLMessage();
   }
-  new Program();
+  const canvas = document.getElementById('render-canvas');
+  const reactRoot = document.getElementById('react-root');
+  if (!(canvas instanceof HTMLCanvasElement) || !reactRoot) {
+    throw new Error('Unable to find the canvas and React root.');
+  }
+  new Program(canvas, reactRoot);
 });
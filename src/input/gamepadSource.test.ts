@@ -0,0 +1,79 @@
+import GamepadInputSource from './gamepadSource';
+
+const BOUNDS = { width: 800, height: 600 };
+const AT_REST = { speed: 0, rotationSpeed: 0, x: 0, y: 0 };
+const FRAME = 1 / 60;
+
+function createGamepad(id: string, mapping: string, pressed: number[] = []) {
+  return {
+    id,
+    mapping,
+    index: 0,
+    connected: true,
+    axes: [0, 0, 0, 0],
+    buttons: Array.from({ length: 17 }, (_, index) => ({
+      pressed: pressed.includes(index),
+      touched: pressed.includes(index),
+      value: pressed.includes(index) ? 1 : 0,
+    })),
+  } as unknown as Gamepad;
+}
+
+let gamepads: Gamepad[] = [];
+
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'navigator', {
+    value: { getGamepads: () => gamepads },
+    configurable: true,
+  });
+});
+
+function createSource() {
+  const controls = { performAction: jest.fn(), changeFov: jest.fn() };
+  return { source: new GamepadInputSource(controls), controls };
+}
+
+/** Presses each button on its own, releasing it in between */
+function pressEach(source: GamepadInputSource, id: string, mapping: string, buttons: number[]) {
+  for (const button of buttons) {
+    gamepads = [createGamepad(id, mapping, [button])];
+    source.update(BOUNDS, AT_REST, FRAME);
+    gamepads = [createGamepad(id, mapping)];
+    source.update(BOUNDS, AT_REST, FRAME);
+  }
+}
+
+describe('GamepadInputSource', () => {
+  it('runs the default actions of standard gamepads without a profile', () => {
+    const { source, controls } = createSource();
+    pressEach(source, 'Xbox Controller', 'standard', [1, 12]);
+    expect(controls.performAction.mock.calls).toEqual([['nextOrbit'], ['levelsUp']]);
+  });
+
+  it('runs an action once per press', () => {
+    const { source, controls } = createSource();
+    for (let i = 0; i < 3; i++) {
+      gamepads = [createGamepad('Xbox Controller', 'standard', [1])];
+      source.update(BOUNDS, AT_REST, FRAME);
+    }
+    expect(controls.performAction).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    'SPEEDLINK COMPETITION PRO (Vendor: 0738 Product: 2217)',
+    'SPEEDLINK COMPETITION PRO Game Controller for Android',
+  ])('runs no actions with the buttons arcade sticks move with, %s', (id) => {
+    const { source, controls } = createSource();
+    pressEach(source, id, 'standard', [0, 1, 2, 3]);
+    pressEach(source, id, '', [0, 1, 2, 3]);
+    expect(controls.performAction).not.toHaveBeenCalled();
+    expect(controls.changeFov).not.toHaveBeenCalled();
+  });
+
+  it('runs no actions on gamepads with an unknown layout', () => {
+    const { source, controls } = createSource();
+    pressEach(source, 'Generic USB Joystick', '', [0, 1, 3, 6, 7, 8, 12, 13, 14, 15]);
+    expect(controls.performAction).not.toHaveBeenCalled();
+    expect(controls.changeFov).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  GAMEPAD_FOV_SPEED,
+  GAMEPAD_TRIGGER_ACTIONS,
+  buildGamepadMovementStrategy,
+  createDefaultGamepadProfile,
+  isGamepadActionPressed,
+  mergeMovements,
+  readGamepadAction,
+} from '../gamepad';
+import {
+  Bounds,
+  GamepadProfile,
+  GamepadProfiles,
+  HopalongAction,
+  InputSource,
+  Movement,
+} from '../types/hopalong';
+
+/** What gamepads can change besides the movement */
+export type GamepadControls = {
+  performAction: (action: HopalongAction) => unknown;
+  changeFov: (delta: number) => unknown;
+};
+
+/**
+ * Steers the flight with the connected gamepads
+ */
+export default class GamepadInputSource implements InputSource {
+  /** Profiles set up by the user, keyed by `Gamepad.id` */
+  profiles: GamepadProfiles = {};
+  /** Index of the gamepad that controls the flight, every gamepad does when null */
+  flightGamepad: number | null = null;
+  private controls: GamepadControls;
+  /** Trigger actions that were pressed in the previous update, keyed by `Gamepad.index` */
+  private pressed: { [index: number]: { [action in HopalongAction]?: boolean } } = {};
+  /** Default bindings of the gamepads without a profile, keyed by `Gamepad.id` */
+  private defaultProfiles: GamepadProfiles = {};
+
+  constructor(controls: GamepadControls) {
+    this.controls = controls;
+  }
+
+  /**
+   * The gamepads that control the flight, all of them when the chosen one isn't connected
+   */
+  getFlightGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+      return [];
+    }
+    const connected = navigator
+      .getGamepads()
+      .filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected);
+    const chosen = connected.filter(({ index }) => index === this.flightGamepad);
+    return chosen.length > 0 ? chosen : connected;
+  }
+
+  isConnected() {
+    return this.getFlightGamepads().length > 0;
+  }
+
+  update(bounds: Bounds, current: Movement, delta: number): Movement | null {
+    const gamepads = this.getFlightGamepads();
+    if (gamepads.length === 0) {
+      return null;
+    }
+    const movements = gamepads.map((gamepad) => {
+      const profile = this.profiles[gamepad.id];
+      this.updateActions(profile || this.getDefaultProfile(gamepad), gamepad, delta);
+      const movementStrategyExecutor = buildGamepadMovementStrategy(gamepad, profile);
+      return movementStrategyExecutor(bounds, current, gamepad, delta);
+    });
+    return movements.length === 1 ? movements[0] : mergeMovements(bounds, current, movements);
+  }
+
+  /**
+   * Forgets the buttons held on a gamepad that was disconnected
+   */
+  disconnect(index: number) {
+    delete this.pressed[index];
+  }
+
+  private getDefaultProfile(gamepad: Gamepad) {
+    if (!this.defaultProfiles[gamepad.id]) {
+      this.defaultProfiles[gamepad.id] = createDefaultGamepadProfile(gamepad);
+    }
+    return this.defaultProfiles[gamepad.id];
+  }
+
+  /**
+   * Runs the actions bound in the profile that aren't part of the movement
+   */
+  private updateActions(profile: GamepadProfile, gamepad: Gamepad, delta: number) {
+    const fovChange = readGamepadAction(profile, gamepad, 'fov');
+    if (fovChange !== 0) {
+      this.controls.changeFov(fovChange * GAMEPAD_FOV_SPEED * delta);
+    }
+    const pressedBefore = this.pressed[gamepad.index] || {};
+    const pressedNow: { [action in HopalongAction]?: boolean } = {};
+    for (const action of GAMEPAD_TRIGGER_ACTIONS) {
+      pressedNow[action] = isGamepadActionPressed(profile, gamepad, action);
+      if (pressedNow[action] && !pressedBefore[action]) {
+        this.controls.performAction(action);
+      }
+    }
+    this.pressed[gamepad.index] = pressedNow;
+  }
+}
@@ -0,0 +1,99 @@
+import GestureRecognizer, { DOUBLE_TAP_INTERVAL, TAP_MAX_DURATION, TouchPoint } from './gestures';
+
+const finger = (id: number, x: number, y: number): TouchPoint => ({ id, x, y });
+
+/** Presses and lifts one finger at `x, y`, returns the gestures of the lift */
+function tap(recognizer: GestureRecognizer, x: number, y: number, time: number, duration = 0.1) {
+  recognizer.update([finger(1, x, y)], time);
+  return recognizer.update([], time + duration);
+}
+
+describe('GestureRecognizer', () => {
+  it('drags with one finger', () => {
+    const recognizer = new GestureRecognizer();
+    expect(recognizer.update([finger(1, 100, 100)], 0)).toEqual([]);
+    expect(recognizer.update([finger(1, 110, 95)], 0.02)).toEqual([
+      { type: 'drag', dx: 10, dy: -5 },
+    ]);
+    expect(recognizer.update([finger(1, 110, 95)], 0.04)).toEqual([]);
+  });
+
+  it('pinches when two fingers move apart', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 100, 100), finger(2, 200, 100)], 0);
+    expect(recognizer.update([finger(1, 90, 100), finger(2, 210, 100)], 0.02)).toEqual([
+      { type: 'pinch', distance: 20 },
+    ]);
+  });
+
+  it('twists when two fingers turn', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 100, 100), finger(2, 200, 100)], 0);
+    const gestures = recognizer.update([finger(1, 150, 50), finger(2, 150, 150)], 0.02);
+    expect(gestures).toEqual([{ type: 'twist', angle: expect.closeTo(Math.PI / 2) }]);
+  });
+
+  it('twists the short way round when the angle wraps', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 200, 101), finger(2, 100, 99)], 0);
+    const gestures = recognizer.update([finger(1, 200, 99), finger(2, 100, 101)], 0.02);
+    expect(gestures).toEqual([{ type: 'twist', angle: expect.closeTo(-0.04, 3) }]);
+  });
+
+  it('swipes when two fingers move down together', () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 100, 100), finger(2, 200, 100)], 0);
+    expect(recognizer.update([finger(1, 100, 130), finger(2, 200, 130)], 0.02)).toEqual([
+      { type: 'swipe', dy: 30 },
+    ]);
+  });
+
+  it("doesn't jump when a finger touches or lifts", () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 100, 100)], 0);
+    expect(recognizer.update([finger(1, 100, 100), finger(2, 300, 300)], 0.02)).toEqual([]);
+    expect(recognizer.update([finger(2, 300, 300)], 0.04)).toEqual([]);
+    expect(recognizer.update([finger(2, 310, 300)], 0.06)).toEqual([
+      { type: 'drag', dx: 10, dy: 0 },
+    ]);
+  });
+
+  it('double taps with two quick taps in the same place', () => {
+    const recognizer = new GestureRecognizer();
+    expect(tap(recognizer, 100, 100, 0)).toEqual([]);
+    expect(tap(recognizer, 105, 102, 0.2)).toEqual([{ type: 'doubleTap', x: 105, y: 102 }]);
+  });
+
+  it("doesn't count a third tap as another double tap", () => {
+    const recognizer = new GestureRecognizer();
+    tap(recognizer, 100, 100, 0);
+    tap(recognizer, 100, 100, 0.2);
+    expect(tap(recognizer, 100, 100, 0.4)).toEqual([]);
+  });
+
+  it("doesn't double tap when the taps are too far apart", () => {
+    const recognizer = new GestureRecognizer();
+    tap(recognizer, 100, 100, 0);
+    expect(tap(recognizer, 200, 100, 0.2)).toEqual([]);
+  });
+
+  it("doesn't double tap when the taps are too slow", () => {
+    const recognizer = new GestureRecognizer();
+    tap(recognizer, 100, 100, 0);
+    expect(tap(recognizer, 100, 100, 0.1 + DOUBLE_TAP_INTERVAL + 0.1)).toEqual([]);
+  });
+
+  it("doesn't count a held finger as a tap", () => {
+    const recognizer = new GestureRecognizer();
+    tap(recognizer, 100, 100, 0, TAP_MAX_DURATION + 0.1);
+    expect(tap(recognizer, 100, 100, 0.5)).toEqual([]);
+  });
+
+  it("doesn't count a drag as a tap", () => {
+    const recognizer = new GestureRecognizer();
+    recognizer.update([finger(1, 100, 100)], 0);
+    recognizer.update([finger(1, 130, 100)], 0.05);
+    recognizer.update([], 0.1);
+    expect(tap(recognizer, 130, 100, 0.2)).toEqual([]);
+  });
+});
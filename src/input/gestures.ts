@@ -0,0 +1,132 @@
+/** A finger on the screen, positions are in pixels */
+export type TouchPoint = {
+  id: number;
+  x: number;
+  y: number;
+};
+
+export type Gesture =
+  /** One finger moved */
+  | { type: 'drag'; dx: number; dy: number }
+  /** Two fingers moved apart, or together when negative, in pixels */
+  | { type: 'pinch'; distance: number }
+  /** Two fingers turned clockwise on the screen, or anticlockwise when negative, in radians */
+  | { type: 'twist'; angle: number }
+  /** Two fingers moved down the screen, or up when negative, in pixels */
+  | { type: 'swipe'; dy: number }
+  | { type: 'doubleTap'; x: number; y: number };
+
+/** Longest a finger can stay down for a tap, in seconds */
+export const TAP_MAX_DURATION = 0.25;
+/** Furthest a finger can move during a tap, in pixels */
+export const TAP_MAX_DISTANCE = 10;
+/** Longest time between the two taps of a double tap, in seconds */
+export const DOUBLE_TAP_INTERVAL = 0.3;
+/** Furthest apart the two taps of a double tap can be, in pixels */
+export const DOUBLE_TAP_DISTANCE = 40;
+
+type Tap = { x: number; y: number; time: number };
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+/** Difference between two angles, wrapped to -π..π */
+function angleDelta(from: number, to: number) {
+  const delta = (to - from) % (2 * Math.PI);
+  if (delta > Math.PI) {
+    return delta - 2 * Math.PI;
+  }
+  if (delta < -Math.PI) {
+    return delta + 2 * Math.PI;
+  }
+  return delta;
+}
+
+/**
+ * Turns the fingers on the screen into gestures. It only sees plain touch points and times, so
+ * any sequence of touches can be replayed through it.
+ */
+export default class GestureRecognizer {
+  private touches: TouchPoint[] = [];
+  /** Where the current finger went down, while it could still be a tap */
+  private tapStart: Tap | null = null;
+  /** The previous tap, while the next one could still make a double tap */
+  private lastTap: Tap | null = null;
+
+  /**
+   * Takes every finger that is on the screen after a touch event, `time` is in seconds, and
+   * returns the gestures they made since the previous update
+   */
+  update(touches: TouchPoint[], time: number): Gesture[] {
+    const previous = this.touches;
+    this.touches = touches.map((touch) => ({ ...touch }));
+    const gestures: Gesture[] = [];
+
+    // Fingers only move the flight while the same ones stay down, so it doesn't jump when another
+    // one touches or lifts
+    const sameFingers =
+      touches.length === previous.length &&
+      touches.every(({ id }) => previous.some((touch) => touch.id === id));
+    const findPrevious = ({ id }: TouchPoint) =>
+      previous.find((touch) => touch.id === id) as TouchPoint;
+
+    if (sameFingers && touches.length === 1) {
+      const [touch] = touches;
+      const before = findPrevious(touch);
+      if (touch.x !== before.x || touch.y !== before.y) {
+        gestures.push({ type: 'drag', dx: touch.x - before.x, dy: touch.y - before.y });
+      }
+      if (this.tapStart && distance(this.tapStart, touch) > TAP_MAX_DISTANCE) {
+        this.tapStart = null;
+      }
+    } else if (sameFingers && touches.length === 2) {
+      gestures.push(...this.twoFingerGestures(touches, touches.map(findPrevious)));
+    }
+
+    if (previous.length === 0 && touches.length === 1) {
+      this.tapStart = { x: touches[0].x, y: touches[0].y, time };
+    } else if (touches.length > 1) {
+      this.tapStart = null;
+    } else if (previous.length === 1 && touches.length === 0 && this.tapStart) {
+      const tap = this.tapStart;
+      this.tapStart = null;
+      if (time - tap.time <= TAP_MAX_DURATION) {
+        const { lastTap } = this;
+        if (
+          lastTap &&
+          tap.time - lastTap.time <= DOUBLE_TAP_INTERVAL &&
+          distance(lastTap, tap) <= DOUBLE_TAP_DISTANCE
+        ) {
+          gestures.push({ type: 'doubleTap', x: tap.x, y: tap.y });
+          this.lastTap = null;
+        } else {
+          this.lastTap = { x: tap.x, y: tap.y, time };
+        }
+      }
+    }
+    return gestures;
+  }
+
+  /**
+   * Pinch, twist and swipe all come from the same pair of fingers, so they can happen together
+   */
+  private twoFingerGestures([a, b]: TouchPoint[], [beforeA, beforeB]: TouchPoint[]): Gesture[] {
+    const gestures: Gesture[] = [];
+    const pinch = distance(a, b) - distance(beforeA, beforeB);
+    if (pinch !== 0) {
+      gestures.push({ type: 'pinch', distance: pinch });
+    }
+    const angle = angleDelta(
+      Math.atan2(beforeB.y - beforeA.y, beforeB.x - beforeA.x),
+      Math.atan2(b.y - a.y, b.x - a.x)
+    );
+    if (angle !== 0) {
+      gestures.push({ type: 'twist', angle });
+    }
+    const dy = (a.y + b.y) / 2 - (beforeA.y + beforeB.y) / 2;
+    if (dy !== 0) {
+      gestures.push({ type: 'swipe', dy });
+    }
+    return gestures;
+  }
+}
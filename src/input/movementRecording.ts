@@ -0,0 +1,144 @@
+import {
+  Bounds,
+  InputSource,
+  Movement,
+  MovementFrame,
+  MovementRecording,
+  SimSettings,
+} from '../types/hopalong';
+import { sanitizeSettings } from '../util/storage';
+
+export const MOVEMENT_RECORDING_VERSION = 1;
+
+/**
+ * Records the movement of every frame, timed by the frame deltas so replaying them with the same
+ * deltas reproduces the flight exactly
+ */
+export class MovementRecorder {
+  private time = 0;
+  private settings: Partial<SimSettings>;
+  private camera: MovementRecording['camera'];
+  private frames: MovementFrame[];
+
+  constructor(settings: SimSettings, camera: MovementRecording['camera'], initial: Movement) {
+    this.settings = sanitizeSettings(settings);
+    this.camera = camera;
+    this.frames = [{ time: 0, ...initial }];
+  }
+
+  record(delta: number, movement: Movement) {
+    this.time += delta;
+    this.frames.push({ time: this.time, ...movement });
+  }
+
+  finish(): MovementRecording {
+    return {
+      version: MOVEMENT_RECORDING_VERSION,
+      settings: this.settings,
+      camera: this.camera,
+      frames: this.frames,
+    };
+  }
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Movement at `time`, interpolated between the frames around it, or null after the last frame
+ */
+export function sampleMovement(frames: MovementFrame[], time: number): Movement | null {
+  if (frames.length === 0 || time > frames[frames.length - 1].time) {
+    return null;
+  }
+  // Binary search for the first frame at or after `time`
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (frames[middle].time < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const next = frames[low];
+  const previous = frames[Math.max(low - 1, 0)];
+  const span = next.time - previous.time;
+  const t = span > 0 ? (time - previous.time) / span : 1;
+  return {
+    speed: lerp(previous.speed, next.speed, t),
+    rotationSpeed: lerp(previous.rotationSpeed, next.rotationSpeed, t),
+    x: lerp(previous.x, next.x, t),
+    y: lerp(previous.y, next.y, t),
+  };
+}
+
+/**
+ * Replays a recorded flight, calling `onFinished` after its last frame
+ */
+export class PlaybackInputSource implements InputSource {
+  exact = true;
+  private elapsed = 0;
+  private recording: MovementRecording;
+  private onFinished: () => unknown;
+  private finished = false;
+
+  constructor(recording: MovementRecording, onFinished: () => unknown) {
+    this.recording = recording;
+    this.onFinished = onFinished;
+  }
+
+  update(bounds: Bounds, current: Movement, delta: number): Movement | null {
+    if (this.finished) {
+      return null;
+    }
+    // The first frame is the movement before any time passed
+    const movement = sampleMovement(this.recording.frames, this.elapsed + delta);
+    this.elapsed += delta;
+    if (!movement) {
+      this.finished = true;
+      this.onFinished();
+    }
+    return movement;
+  }
+}
+
+export function movementRecordingToBlob(recording: MovementRecording): Blob {
+  return new Blob([JSON.stringify(recording)], { type: 'application/json' });
+}
+
+function isFrame(frame: unknown): frame is MovementFrame {
+  const data = frame as { [key: string]: unknown } | null;
+  return ['time', 'speed', 'rotationSpeed', 'x', 'y'].every(
+    (key) => typeof data?.[key] === 'number' && isFinite(data[key] as number)
+  );
+}
+
+/**
+ * Parses a recorded flight, throws when it isn't one
+ */
+export function parseMovementRecording(json: string): MovementRecording {
+  let data: { version?: unknown; settings?: unknown; camera?: unknown; frames?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Flight recording is not valid JSON.');
+  }
+  if (data?.version !== MOVEMENT_RECORDING_VERSION || !Array.isArray(data.frames)) {
+    throw new Error('Not a flight recording.');
+  }
+  const frames = data.frames.filter(isFrame);
+  if (frames.length === 0) {
+    throw new Error('The flight recording is empty.');
+  }
+  const camera = data.camera as { x?: unknown; y?: unknown } | undefined;
+  return {
+    version: MOVEMENT_RECORDING_VERSION,
+    settings: sanitizeSettings(data.settings),
+    camera: {
+      x: typeof camera?.x === 'number' && isFinite(camera.x) ? camera.x : frames[0].x,
+      y: typeof camera?.y === 'number' && isFinite(camera.y) ? camera.y : -frames[0].y,
+    },
+    frames,
+  };
+}
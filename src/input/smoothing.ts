@@ -0,0 +1,35 @@
+import { Movement, SimSettings } from '../types/hopalong';
+
+export type SmoothingSettings = Pick<SimSettings, 'inputSmoothing' | 'inputMaxAcceleration'>;
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  inputSmoothing: 0,
+  inputMaxAcceleration: 0,
+};
+
+/**
+ * Moves from `current` towards `target` over `delta` seconds. Smoothing eases every part of the
+ * movement exponentially, and the acceleration limit then caps the change of speed.
+ */
+export function smoothMovement(
+  current: Movement,
+  target: Movement,
+  { inputSmoothing, inputMaxAcceleration }: SmoothingSettings,
+  delta: number
+): Movement {
+  // Frame rate independent exponential easing
+  const easing = inputSmoothing > 0 ? 1 - Math.exp(-delta / inputSmoothing) : 1;
+  const ease = (from: number, to: number) => from + (to - from) * easing;
+
+  let speed = ease(current.speed, target.speed);
+  if (inputMaxAcceleration > 0) {
+    const maxChange = inputMaxAcceleration * delta;
+    speed = current.speed + Math.max(-maxChange, Math.min(speed - current.speed, maxChange));
+  }
+  return {
+    speed,
+    rotationSpeed: ease(current.rotationSpeed, target.rotationSpeed),
+    x: ease(current.x, target.x),
+    y: ease(current.y, target.y),
+  };
+}
@@ -0,0 +1,75 @@
+import { Bounds, InputSource, Movement } from '../types/hopalong';
+import GestureRecognizer, { Gesture, TouchPoint } from './gestures';
+
+/** Degrees of field of view per pixel the fingers pinch */
+export const PINCH_FOV_SPEED = 0.1;
+/** Change of rotation speed per radian the fingers twist */
+export const TWIST_ROTATION_SPEED = 0.3;
+/** Change of speed per pixel the fingers swipe */
+export const SWIPE_SPEED = 1.5;
+
+/** What touches can change besides the movement */
+export type TouchControls = {
+  changeFov: (delta: number) => unknown;
+  recenter: () => unknown;
+};
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(value, limit));
+
+/**
+ * Steers the flight with touch gestures. Dragging moves the camera relative to where it is,
+ * pinching zooms, twisting turns the rotation and swiping with two fingers changes the speed.
+ */
+export default class TouchInputSource implements InputSource {
+  // Fingers move the flight directly, like dragging anything else on the screen
+  exact = true;
+  private recognizer = new GestureRecognizer();
+  private controls: TouchControls;
+  /** Gestures made since the previous update */
+  private pending: Gesture[] = [];
+
+  constructor(controls: TouchControls) {
+    this.controls = controls;
+  }
+
+  /**
+   * Takes every finger that is on the screen after a touch event, `time` is in seconds
+   */
+  onTouches(touches: TouchPoint[], time: number) {
+    for (const gesture of this.recognizer.update(touches, time)) {
+      if (gesture.type === 'pinch') {
+        // Spreading the fingers zooms in
+        this.controls.changeFov(-gesture.distance * PINCH_FOV_SPEED);
+      } else if (gesture.type === 'doubleTap') {
+        this.controls.recenter();
+      } else {
+        this.pending.push(gesture);
+      }
+    }
+  }
+
+  update(bounds: Bounds, current: Movement): Movement | null {
+    if (this.pending.length === 0) {
+      return null;
+    }
+    let { speed, rotationSpeed, x, y } = current;
+    for (const gesture of this.pending) {
+      if (gesture.type === 'drag') {
+        x += gesture.dx;
+        y += gesture.dy;
+      } else if (gesture.type === 'twist') {
+        rotationSpeed -= gesture.angle * TWIST_ROTATION_SPEED;
+      } else if (gesture.type === 'swipe') {
+        // Swiping up speeds up
+        speed -= gesture.dy * SWIPE_SPEED;
+      }
+    }
+    this.pending = [];
+    return {
+      speed: Math.max(speed, 0),
+      rotationSpeed,
+      x: clamp(x, bounds.width / 2),
+      y: clamp(y, bounds.height / 2),
+    };
+  }
+}
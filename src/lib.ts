@@ -0,0 +1,31 @@
+/**
+ * Entry point of the library build, which embeds the visualiser in other pages:
+ *
+ *   const hopalong = new Hopalong({ container: document.getElementById('flight') });
+ *   hopalong.on('orbit', ({ seed }) => console.log(`Flying through orbit ${seed}`));
+ *   hopalong.applySettings({ speed: 12, palette: 'neon' });
+ *
+ * The visualiser fills its container and follows its size, so give it one. It draws with the
+ * page's own copy of three, which is a peer dependency.
+ */
+export { default, default as Hopalong, REGENERATION_MODES } from './hopalong';
+export type { HopalongOptions } from './hopalong';
+export { ATTRACTOR_NAMES } from './attractors';
+export { PALETTE_NAMES } from './palettes';
+export { HOPALONG_ACTIONS } from './actions';
+export { EXPORT_RESOLUTIONS } from './capture';
+export type {
+  AttractorName,
+  ExportResolution,
+  HopalongAction,
+  HopalongEvents,
+  Movement,
+  OrbitEvent,
+  OrbitParams,
+  PaletteName,
+  RecordingMode,
+  RegenerationMode,
+  SimSettings,
+  SimState,
+  SyncView,
+} from './types/hopalong';
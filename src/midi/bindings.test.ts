@@ -0,0 +1,123 @@
+import { ATTRACTORS } from '../attractors';
+import { MidiBinding, MidiControl, SimSettings } from '../types/hopalong';
+import {
+  MIDI_SETTING_RANGES,
+  learnMidiBinding,
+  parseMidiMessage,
+  resolveMidiMessage,
+} from './bindings';
+
+const knob = (number: number, channel = 0): MidiControl => ({ type: 'cc', channel, number });
+const pad = (number: number, channel = 0): MidiControl => ({ type: 'note', channel, number });
+
+const settings = {
+  speed: 480,
+  rotationSpeed: 0.3,
+  cameraFov: 60,
+  levelCount: 7,
+  subsetCount: 7,
+  attractor: 'hopalong',
+  palette: 'random',
+  pinnedParams: {},
+} as unknown as SimSettings;
+
+describe('parseMidiMessage', () => {
+  it('reads control changes', () => {
+    expect(parseMidiMessage([0xb3, 21, 64])).toEqual({ control: knob(21, 3), value: 64 });
+  });
+
+  it('reads notes on', () => {
+    expect(parseMidiMessage([0x90, 36, 100])).toEqual({ control: pad(36), value: 100 });
+  });
+
+  it('ignores notes off, including notes on without velocity', () => {
+    expect(parseMidiMessage([0x80, 36, 0])).toBeNull();
+    expect(parseMidiMessage([0x90, 36, 0])).toBeNull();
+  });
+
+  it('ignores other and incomplete messages', () => {
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+    expect(parseMidiMessage([0xb0, 21])).toBeNull();
+  });
+});
+
+describe('learnMidiBinding', () => {
+  it('binds a knob to a setting', () => {
+    const target = { type: 'setting', setting: 'speed' } as const;
+    expect(learnMidiBinding([], target, { control: knob(21), value: 0 })).toEqual([
+      { control: knob(21), target },
+    ]);
+  });
+
+  it("refuses controls that can't drive the target", () => {
+    const setting = { type: 'setting', setting: 'speed' } as const;
+    const action = { type: 'action', action: 'nextOrbit' } as const;
+    expect(learnMidiBinding([], setting, { control: pad(36), value: 100 })).toBeNull();
+    expect(learnMidiBinding([], action, { control: knob(21), value: 100 })).toBeNull();
+  });
+
+  it('replaces what the target and the control were bound to', () => {
+    const speed = { type: 'setting', setting: 'speed' } as const;
+    const fov = { type: 'setting', setting: 'cameraFov' } as const;
+    const rotation = { type: 'setting', setting: 'rotationSpeed' } as const;
+    const bindings: MidiBinding[] = [
+      { control: knob(21), target: speed },
+      { control: knob(22), target: fov },
+      { control: knob(23), target: rotation },
+    ];
+    expect(learnMidiBinding(bindings, speed, { control: knob(22), value: 0 })).toEqual([
+      { control: knob(23), target: rotation },
+      { control: knob(22), target: speed },
+    ]);
+  });
+});
+
+describe('resolveMidiMessage', () => {
+  const bindings: MidiBinding[] = [
+    { control: knob(21), target: { type: 'setting', setting: 'speed' } },
+    { control: knob(22), target: { type: 'setting', setting: 'levelCount' } },
+    { control: knob(23), target: { type: 'param', param: 'a' } },
+    { control: pad(36), target: { type: 'action', action: 'nextOrbit' } },
+    { control: pad(37), target: { type: 'palette', palette: 'monochrome' } },
+  ];
+
+  it('sweeps settings through their range', () => {
+    const [min, max] = MIDI_SETTING_RANGES.speed;
+    expect(resolveMidiMessage(bindings, { control: knob(21), value: 0 }, settings)).toEqual([
+      { type: 'settings', settings: { speed: min } },
+    ]);
+    expect(resolveMidiMessage(bindings, { control: knob(21), value: 127 }, settings)).toEqual([
+      { type: 'settings', settings: { speed: max } },
+    ]);
+  });
+
+  it('rounds counts to whole numbers', () => {
+    const [command] = resolveMidiMessage(bindings, { control: knob(22), value: 50 }, settings);
+    expect(command).toEqual({ type: 'settings', settings: { levelCount: 8 } });
+  });
+
+  it('leaves out values that are unchanged', () => {
+    const current = { ...settings, levelCount: 8 };
+    expect(resolveMidiMessage(bindings, { control: knob(22), value: 50 }, current)).toEqual([]);
+  });
+
+  it('pins orbit parameters within the range of the attractor', () => {
+    const [min] = ATTRACTORS.hopalong.paramRanges.a;
+    expect(resolveMidiMessage(bindings, { control: knob(23), value: 0 }, settings)).toEqual([
+      { type: 'settings', settings: { pinnedParams: { a: min } } },
+    ]);
+  });
+
+  it('triggers actions and palettes with notes', () => {
+    expect(resolveMidiMessage(bindings, { control: pad(36), value: 100 }, settings)).toEqual([
+      { type: 'action', action: 'nextOrbit' },
+    ]);
+    expect(resolveMidiMessage(bindings, { control: pad(37), value: 100 }, settings)).toEqual([
+      { type: 'settings', settings: { palette: 'monochrome' } },
+    ]);
+  });
+
+  it('ignores controls that are not bound', () => {
+    expect(resolveMidiMessage(bindings, { control: knob(21, 1), value: 64 }, settings)).toEqual([]);
+  });
+});
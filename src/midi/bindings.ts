@@ -0,0 +1,145 @@
+import { ATTRACTORS } from '../attractors';
+import {
+  HopalongCommand,
+  MidiBinding,
+  MidiControl,
+  MidiSetting,
+  MidiTarget,
+  OrbitParams,
+  SimSettings,
+} from '../types/hopalong';
+
+/** A control change or note on, notes off are ignored */
+export type MidiMessage = {
+  control: MidiControl;
+  /** Position of the knob or fader, or velocity of the note, between 0 and 127 */
+  value: number;
+};
+
+const STATUS_CONTROL_CHANGE = 0xb0;
+const STATUS_NOTE_ON = 0x90;
+const MAX_VALUE = 127;
+
+/** Range knobs and faders sweep each setting through */
+export const MIDI_SETTING_RANGES: { [setting in MidiSetting]: [number, number] } = {
+  speed: [0, 1500],
+  rotationSpeed: [-3, 3],
+  cameraFov: [10, 120],
+  levelCount: [1, 20],
+  subsetCount: [1, 20],
+};
+export const MIDI_SETTINGS = Object.keys(MIDI_SETTING_RANGES) as MidiSetting[];
+export const MIDI_PARAMS: (keyof OrbitParams<number>)[] = ['a', 'b', 'c', 'd', 'e'];
+const INTEGER_SETTINGS: MidiSetting[] = ['levelCount', 'subsetCount'];
+
+/**
+ * Reads the raw bytes of a MIDI message, returns null for the kinds of messages that aren't used
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  if (data.length < 3) {
+    return null;
+  }
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const [number, value] = [data[1], data[2]];
+  if (status === STATUS_CONTROL_CHANGE) {
+    return { control: { type: 'cc', channel, number }, value };
+  }
+  // Notes on with no velocity are notes off
+  if (status === STATUS_NOTE_ON && value > 0) {
+    return { control: { type: 'note', channel, number }, value };
+  }
+  return null;
+}
+
+/** Knobs and faders set values, notes trigger everything else */
+export function controlTypeOf(target: MidiTarget): MidiControl['type'] {
+  return target.type === 'setting' || target.type === 'param' ? 'cc' : 'note';
+}
+
+export function isSameControl(a: MidiControl, b: MidiControl) {
+  return a.type === b.type && a.channel === b.channel && a.number === b.number;
+}
+
+export function isSameTarget(a: MidiTarget, b: MidiTarget) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function describeMidiControl({ type, channel, number }: MidiControl) {
+  return `${type === 'cc' ? 'CC' : 'Note'} ${number}, channel ${channel + 1}`;
+}
+
+/**
+ * Binds the control that sent `message` to `target`, replacing what either was bound to. Returns
+ * null when the control can't drive the target, a note can't set a value for example.
+ */
+export function learnMidiBinding(
+  bindings: MidiBinding[],
+  target: MidiTarget,
+  { control }: MidiMessage
+): MidiBinding[] | null {
+  if (control.type !== controlTypeOf(target)) {
+    return null;
+  }
+  return [...clearMidiBinding(bindings, target), { control, target }].filter(
+    (binding, i, all) => i === all.length - 1 || !isSameControl(binding.control, control)
+  );
+}
+
+export function clearMidiBinding(bindings: MidiBinding[], target: MidiTarget): MidiBinding[] {
+  return bindings.filter((binding) => !isSameTarget(binding.target, target));
+}
+
+const scale = (value: number, [min, max]: [number, number]) =>
+  min + (value / MAX_VALUE) * (max - min);
+
+/**
+ * Works out what a message does with the current settings. Values that wouldn't change are left
+ * out, so a knob sending the same position doesn't regenerate the orbit.
+ */
+export function resolveMidiMessage(
+  bindings: MidiBinding[],
+  message: MidiMessage,
+  settings: SimSettings
+): HopalongCommand[] {
+  const changes: Partial<SimSettings> = {};
+  const actions: HopalongCommand[] = [];
+  for (const { control, target } of bindings) {
+    if (!isSameControl(control, message.control)) {
+      continue;
+    }
+    switch (target.type) {
+      case 'setting': {
+        const { setting } = target;
+        let value = scale(message.value, MIDI_SETTING_RANGES[setting]);
+        if (INTEGER_SETTINGS.includes(setting)) {
+          value = Math.round(value);
+        }
+        if (value !== settings[setting]) {
+          changes[setting] = value;
+        }
+        break;
+      }
+      case 'param': {
+        const { param } = target;
+        const pinnedParams = changes.pinnedParams || settings.pinnedParams;
+        const value = scale(message.value, ATTRACTORS[settings.attractor].paramRanges[param]);
+        if (value !== pinnedParams[param]) {
+          changes.pinnedParams = { ...pinnedParams, [param]: value };
+        }
+        break;
+      }
+      case 'action':
+        actions.push({ type: 'action', action: target.action });
+        break;
+      case 'palette':
+        if (target.palette !== settings.palette) {
+          changes.palette = target.palette;
+        }
+        break;
+    }
+  }
+  return Object.keys(changes).length > 0
+    ? [{ type: 'settings', settings: changes }, ...actions]
+    : actions;
+}
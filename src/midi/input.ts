@@ -0,0 +1,48 @@
+import { MidiMessage, parseMidiMessage } from './bindings';
+
+export type MidiConnection = {
+  /** Names of the connected MIDI inputs */
+  getInputNames: () => string[];
+  stop: () => void;
+};
+
+/**
+ * Listens to every MIDI input, including ones plugged in later, asking for permission first
+ */
+export async function openMidi(
+  onMessage: (message: MidiMessage) => unknown,
+  onInputsChange: () => unknown
+): Promise<MidiConnection> {
+  if (!navigator.requestMIDIAccess) {
+    throw new Error('MIDI is not supported by this browser.');
+  }
+  const access = await navigator.requestMIDIAccess();
+  const listen = ({ data }: MIDIMessageEvent) => {
+    const message = data && parseMidiMessage(data);
+    if (message) {
+      onMessage(message);
+    }
+  };
+  const attach = () =>
+    access.inputs.forEach((input) => {
+      input.onmidimessage = listen;
+    });
+  attach();
+  access.onstatechange = () => {
+    attach();
+    onInputsChange();
+  };
+  return {
+    getInputNames: () => {
+      const names: string[] = [];
+      access.inputs.forEach((input) => names.push(input.name || input.id));
+      return names;
+    },
+    stop: () => {
+      access.onstatechange = null;
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { IUniform, PointsMaterial, PointsMaterialParameters } from 'three';
+
+/** Attribute holding the positions particles morph from */
+export const MORPH_FROM_ATTRIBUTE = 'morphFrom';
+
+/**
+ * Creates a points material that blends from the positions in the `morphFrom` attribute to
+ * `position`. The progress uniform is shared, so every material using it morphs in step.
+ * Once progress reaches 1 the `morphFrom` attribute is no longer needed.
+ */
+export function createMorphPointsMaterial(
+  parameters: PointsMaterialParameters,
+  progress: IUniform<number>
+) {
+  const material = new PointsMaterial(parameters);
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.morphProgress = progress;
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+attribute vec3 ${MORPH_FROM_ATTRIBUTE};
+uniform float morphProgress;`
+      )
+      .replace(
+        '#include <begin_vertex>',
+        `vec3 transformed = mix(${MORPH_FROM_ATTRIBUTE}, vec3(position), morphProgress);`
+      );
+  };
+  return material;
+}
@@ -0,0 +1,243 @@
+import autoBind from 'auto-bind';
+import { RepeatMode, Track } from '../types/hopalong';
+import { deletePlaylistTrack, loadPlaylist, savePlaylist } from '../util/playlistStore';
+import {
+  DEFAULT_PLAYLIST_OPTIONS,
+  Playlist,
+  addTracks,
+  createFileTrack,
+  createPlaylist,
+  createUrlTrack,
+  moveTrack,
+  nextTrack,
+  previousTrack,
+  removeTrack,
+  setShuffle,
+} from './playlist';
+
+export type MusicState = {
+  playlist: Playlist;
+  playing: boolean;
+  error: string | null;
+};
+type Listener = (state: MusicState) => unknown;
+
+// Going back this far into a track restarts it, rather than going to the previous one
+const RESTART_THRESHOLD = 3;
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Plays the music playlist and keeps it stored, so it is there offline and on the next visit
+ */
+export default class MusicPlayer {
+  audio = new Audio();
+  state: MusicState = {
+    playlist: createPlaylist(),
+    playing: false,
+    error: null,
+  };
+  private listeners: Listener[] = [];
+  /** URL of the file that is loaded in the audio element, revoked when it changes */
+  private objectUrl?: string;
+
+  constructor() {
+    autoBind(this);
+    this.audio.volume = DEFAULT_PLAYLIST_OPTIONS.volume;
+    this.audio.addEventListener('ended', this.onEnded);
+    this.audio.addEventListener('error', this.onError);
+    this.load();
+  }
+
+  /**
+   * Calls `listener` whenever the state changes, returns a function to stop
+   */
+  subscribe(listener: Listener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  async load() {
+    try {
+      const { tracks, options } = await loadPlaylist();
+      const playlist = createPlaylist(tracks, { ...DEFAULT_PLAYLIST_OPTIONS, ...options });
+      this.audio.volume = playlist.volume;
+      this.update({ playlist });
+    } catch (e) {
+      this.update({ error: errorMessage(e, 'Unable to load the playlist.') });
+    }
+  }
+
+  /**
+   * Adds the audio files out of `files`, other files are ignored
+   */
+  addFiles(files: File[]) {
+    const tracks = files.filter((file) => file.type.startsWith('audio/')).map(createFileTrack);
+    if (tracks.length === 0) {
+      this.update({ error: 'None of the files are audio.' });
+      return;
+    }
+    this.updatePlaylist(addTracks(this.state.playlist, tracks), tracks);
+  }
+
+  /**
+   * Adds a track played from `url`, throws when it isn't a valid URL
+   */
+  addUrl(url: string) {
+    const track = createUrlTrack(url);
+    this.updatePlaylist(addTracks(this.state.playlist, [track]), [track]);
+  }
+
+  remove(id: string) {
+    if (this.state.playlist.current === id) {
+      this.unload();
+    }
+    this.updatePlaylist(removeTrack(this.state.playlist, id));
+    deletePlaylistTrack(id).catch(this.onStorageError);
+  }
+
+  move(id: string, offset: number) {
+    this.updatePlaylist(moveTrack(this.state.playlist, id, offset));
+  }
+
+  setShuffle(shuffle: boolean) {
+    this.updatePlaylist(setShuffle(this.state.playlist, shuffle));
+  }
+
+  setRepeat(repeat: RepeatMode) {
+    this.updatePlaylist({ ...this.state.playlist, repeat });
+  }
+
+  setVolume(volume: number) {
+    this.audio.volume = volume;
+    this.updatePlaylist({ ...this.state.playlist, volume });
+  }
+
+  /**
+   * Plays the given track, or resumes the current one
+   */
+  async play(id: string | null = this.state.playlist.current) {
+    const trackId = id ?? nextTrack(this.state.playlist, false);
+    if (trackId === null) {
+      this.update({ playing: false, error: 'The playlist is empty, add music in the menu.' });
+      return;
+    }
+    if (trackId !== this.state.playlist.current) {
+      this.select(trackId);
+    }
+    this.update({ playing: true });
+    try {
+      await this.audio.play();
+      this.update({ error: null });
+    } catch (e) {
+      // Pausing while the track loads rejects as well
+      if (this.state.playing) {
+        this.update({ playing: false, error: errorMessage(e, 'Unable to play this track.') });
+      }
+    }
+  }
+
+  pause() {
+    this.audio.pause();
+    this.update({ playing: false });
+  }
+
+  setPlaying(playing: boolean) {
+    if (playing === this.state.playing) {
+      return;
+    }
+    if (playing) {
+      this.play();
+    } else {
+      this.pause();
+    }
+  }
+
+  next() {
+    this.skipTo(nextTrack(this.state.playlist, false));
+  }
+
+  previous() {
+    if (this.audio.currentTime > RESTART_THRESHOLD) {
+      this.audio.currentTime = 0;
+      return;
+    }
+    this.skipTo(previousTrack(this.state.playlist));
+  }
+
+  private skipTo(id: string | null) {
+    if (id === null) {
+      return;
+    }
+    if (this.state.playing) {
+      this.play(id);
+    } else {
+      this.select(id);
+    }
+  }
+
+  private select(id: string) {
+    const track = this.state.playlist.tracks.find((current) => current.id === id);
+    if (!track) {
+      return;
+    }
+    this.unload();
+    if (track.source.type === 'file') {
+      this.objectUrl = URL.createObjectURL(track.source.file);
+      this.audio.src = this.objectUrl;
+    } else {
+      this.audio.src = track.source.url;
+    }
+    this.update({ playlist: { ...this.state.playlist, current: id } });
+  }
+
+  private unload() {
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+    this.update({ playing: false, playlist: { ...this.state.playlist, current: null } });
+  }
+
+  private onEnded() {
+    const id = nextTrack(this.state.playlist, true);
+    if (id === null) {
+      this.update({ playing: false });
+    } else {
+      // Playing an ended track starts it over
+      this.play(id);
+    }
+  }
+
+  private onError() {
+    // Errors also fire when the source is removed
+    if (this.state.playlist.current !== null) {
+      this.update({ playing: false, error: 'Unable to load this track.' });
+    }
+  }
+
+  private onStorageError(e: unknown) {
+    this.update({ error: errorMessage(e, 'Unable to store the playlist.') });
+  }
+
+  private updatePlaylist(playlist: Playlist, addedTracks: Track[] = []) {
+    this.update({ playlist });
+    const { shuffle, repeat, volume, tracks } = playlist;
+    savePlaylist(
+      { shuffle, repeat, volume, trackIds: tracks.map(({ id }) => id) },
+      addedTracks
+    ).catch(this.onStorageError);
+  }
+
+  private update(state: Partial<MusicState>) {
+    this.state = { ...this.state, ...state };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,170 @@
+import { v4 } from 'uuid';
+import { PlaylistOptions, RepeatMode, Track } from '../types/hopalong';
+import { Random } from '../util/random';
+
+export type Playlist = PlaylistOptions & {
+  tracks: Track[];
+  /** Ids of the tracks in the order they play in, shuffled when shuffle is on */
+  order: string[];
+  /** Id of the track that is playing or paused */
+  current: string | null;
+};
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export const DEFAULT_PLAYLIST_OPTIONS: PlaylistOptions = {
+  shuffle: false,
+  repeat: 'all',
+  volume: 0.8,
+};
+
+export function createPlaylist(
+  tracks: Track[] = [],
+  options: PlaylistOptions = DEFAULT_PLAYLIST_OPTIONS,
+  random: Random = Math.random
+): Playlist {
+  const playlist: Playlist = { ...options, tracks, order: [], current: null };
+  return { ...playlist, order: playOrder(playlist, random) };
+}
+
+/**
+ * Creates a track from a local file, named after it without the extension
+ */
+export function createFileTrack(file: File): Track {
+  return {
+    id: v4(),
+    title: file.name.replace(/\.[^.]+$/, '') || file.name,
+    source: { type: 'file', file },
+  };
+}
+
+/**
+ * Creates a track from a URL, named after the last part of its path
+ */
+export function createUrlTrack(url: string): Track {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    throw new Error('Not a valid URL.');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be played.');
+  }
+  const path = parsed.pathname.split('/').filter(Boolean);
+  const title = path.length > 0 ? decodeSegment(path[path.length - 1]) : parsed.hostname;
+  return { id: v4(), title, source: { type: 'url', url } };
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return segment;
+  }
+}
+
+function shuffled<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  // Fisher-Yates
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Order of the tracks, keeping the current one first when shuffling so it doesn't play twice
+ */
+function playOrder({ tracks, shuffle, current }: Playlist, random: Random): string[] {
+  const ids = tracks.map(({ id }) => id);
+  if (!shuffle) {
+    return ids;
+  }
+  if (current !== null && ids.includes(current)) {
+    return [
+      current,
+      ...shuffled(
+        ids.filter((id) => id !== current),
+        random
+      ),
+    ];
+  }
+  return shuffled(ids, random);
+}
+
+export function addTracks(playlist: Playlist, tracks: Track[], random: Random = Math.random) {
+  const added = { ...playlist, tracks: [...playlist.tracks, ...tracks] };
+  if (!playlist.shuffle) {
+    return { ...added, order: playOrder(added, random) };
+  }
+  // Mix the new tracks into the part of the order that hasn't played yet
+  const position = playlist.current === null ? -1 : playlist.order.indexOf(playlist.current);
+  const played = playlist.order.slice(0, position + 1);
+  const upcoming = [...playlist.order.slice(position + 1), ...tracks.map(({ id }) => id)];
+  return { ...added, order: [...played, ...shuffled(upcoming, random)] };
+}
+
+export function removeTrack(playlist: Playlist, id: string): Playlist {
+  return {
+    ...playlist,
+    tracks: playlist.tracks.filter((track) => track.id !== id),
+    order: playlist.order.filter((orderId) => orderId !== id),
+    current: playlist.current === id ? null : playlist.current,
+  };
+}
+
+/**
+ * Moves a track up or down the list by `offset` places
+ */
+export function moveTrack(playlist: Playlist, id: string, offset: number): Playlist {
+  const index = playlist.tracks.findIndex((track) => track.id === id);
+  const target = Math.max(0, Math.min(playlist.tracks.length - 1, index + offset));
+  if (index === -1 || index === target) {
+    return playlist;
+  }
+  const tracks = [...playlist.tracks];
+  const [track] = tracks.splice(index, 1);
+  tracks.splice(target, 0, track);
+  const moved = { ...playlist, tracks };
+  // A shuffled order doesn't depend on the order of the list
+  return playlist.shuffle ? moved : { ...moved, order: moved.tracks.map(({ id }) => id) };
+}
+
+export function setShuffle(playlist: Playlist, shuffle: boolean, random: Random = Math.random) {
+  const updated = { ...playlist, shuffle };
+  return { ...updated, order: playOrder(updated, random) };
+}
+
+/**
+ * Id of the track after the current one, or null when the playlist is over. `ended` is whether
+ * the current track finished playing, rather than being skipped.
+ */
+export function nextTrack({ order, current, repeat }: Playlist, ended: boolean): string | null {
+  if (order.length === 0) {
+    return null;
+  }
+  if (current === null) {
+    return order[0];
+  }
+  if (ended && repeat === 'one') {
+    return current;
+  }
+  const position = order.indexOf(current);
+  if (position + 1 < order.length) {
+    return order[position + 1];
+  }
+  return repeat === 'off' && ended ? null : order[0];
+}
+
+/**
+ * Id of the track before the current one, wrapping around to the last one
+ */
+export function previousTrack({ order, current }: Playlist): string | null {
+  if (order.length === 0) {
+    return null;
+  }
+  const position = current === null ? 0 : order.indexOf(current);
+  return order[(position - 1 + order.length) % order.length];
+}
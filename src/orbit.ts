@@ -0,0 +1,120 @@
+import { ATTRACTORS } from './attractors';
+import { AttractorName, Orbit, OrbitParams } from './types/hopalong';
+import { createRandom, deriveSeed } from './util/random';
+
+export const SCALE_FACTOR = 1500;
+
+/** Independent random sequences derived from the seed of an orbit */
+export enum SeedStream {
+  Next,
+  Attractor,
+  Params,
+  Start,
+  Hues,
+}
+
+export type OrbitRequest = {
+  /** Identifies the request, so stale responses can be discarded */
+  id: number;
+  attractor: AttractorName;
+  params: OrbitParams<number>;
+  /** Seed the starting points of the subsets are derived from */
+  seed: number;
+  numSubsets: number;
+  numPointsSubset: number;
+  /** Buffer the orbit is written into, see `createOrbitPositions` */
+  positions: Float32Array;
+};
+export type OrbitResponse = {
+  id: number;
+  orbit: Orbit<number>;
+};
+
+/**
+ * Allocates one contiguous buffer holding the xyz positions of every subset
+ */
+export function createOrbitPositions(numSubsets: number, numPointsSubset: number) {
+  return new Float32Array(numSubsets * numPointsSubset * 3);
+}
+
+/**
+ * Splits an orbit buffer into one view per subset, the views share memory with the buffer
+ */
+export function getSubsetViews(positions: Float32Array, numSubsets: number) {
+  const subsetLength = positions.length / numSubsets;
+  const subsets: Float32Array[] = [];
+  for (let s = 0; s < numSubsets; s++) {
+    subsets.push(positions.subarray(s * subsetLength, (s + 1) * subsetLength));
+  }
+  return subsets;
+}
+
+/**
+ * Iterates the attractor formula and normalizes the result in place into the positions buffer of the
+ * request. Kept free of any DOM or three.js state so it can run inside a Web Worker.
+ */
+export function computeOrbit({
+  attractor,
+  params,
+  seed,
+  numSubsets,
+  numPointsSubset,
+  positions,
+}: OrbitRequest): Orbit<number> {
+  const { iterate, start } = ATTRACTORS[attractor];
+  const random = createRandom(deriveSeed(seed, SeedStream.Start));
+  const subsets = getSubsetViews(positions, numSubsets);
+
+  let xMin = 0,
+    xMax = 0,
+    yMin = 0,
+    yMax = 0;
+
+  for (let s = 0; s < numSubsets; s++) {
+    // Use a different starting point for each orbit subset
+    let x = start[0] + s * 0.005 * (0.5 - random());
+    let y = start[1] + s * 0.005 * (0.5 - random());
+
+    const curSubset = subsets[s];
+
+    for (let i = 0; i < numPointsSubset; i++) {
+      [x, y] = iterate(x, y, params);
+
+      // Raw values are kept in the position buffer until the bounds are known
+      curSubset[i * 3] = x;
+      curSubset[i * 3 + 1] = y;
+
+      if (x < xMin) {
+        xMin = x;
+      } else if (x > xMax) {
+        xMax = x;
+      }
+      if (y < yMin) {
+        yMin = y;
+      } else if (y > yMax) {
+        yMax = y;
+      }
+    }
+  }
+
+  // Guard against degenerate orbits collapsing onto a single line
+  const scaleX = (2 * SCALE_FACTOR) / (xMax - xMin || 1);
+  const scaleY = (2 * SCALE_FACTOR) / (yMax - yMin || 1);
+
+  // Normalize vertex data
+  for (let i = 0; i < positions.length; i += 3) {
+    positions[i] = scaleX * (positions[i] - xMin) - SCALE_FACTOR;
+    positions[i + 1] = scaleY * (positions[i + 1] - yMin) - SCALE_FACTOR;
+  }
+
+  return {
+    positions,
+    subsets,
+    xMin,
+    xMax,
+    yMin,
+    yMax,
+    scaleX,
+    scaleY,
+  };
+}
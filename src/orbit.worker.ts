@@ -0,0 +1,8 @@
+import { OrbitRequest, OrbitResponse, computeOrbit } from './orbit';
+
+self.onmessage = ({ data }: MessageEvent<OrbitRequest>) => {
+  const orbit = computeOrbit(data);
+  const response: OrbitResponse = { id: data.id, orbit };
+  // Hand the buffer back to the main thread instead of copying it
+  self.postMessage(response, { transfer: [orbit.positions.buffer] });
+};
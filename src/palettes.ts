@@ -0,0 +1,72 @@
+import chroma from 'chroma-js';
+import { Palette, PaletteName } from './types/hopalong';
+
+const hsv = (hue: number, saturation = 1, value = 1) =>
+  chroma.hsv(((hue % 360) + 360) % 360, saturation, value).hex();
+
+export const DEFAULT_PALETTE: PaletteName = 'random';
+export const DEFAULT_PALETTE_STOPS = ['#1fa2ff', '#12d8fa', '#a6ffcb'];
+export const MIN_PALETTE_STOPS = 2;
+export const MAX_PALETTE_STOPS = 6;
+
+export const PALETTES: { [name in PaletteName]: Palette } = {
+  random: {
+    name: 'Random',
+    saturation: 0.8,
+    brightness: 1,
+    blend: 'hsl',
+    scatter: true,
+    // The whole colour wheel, so every subset gets a random hue
+    stops: () => [0, 120, 240, 360].map((hue) => hsv(hue)),
+  },
+  monochrome: {
+    name: 'Monochrome',
+    saturation: 0.8,
+    brightness: 1,
+    blend: 'lch',
+    scatter: false,
+    stops: (hue) => [hsv(hue, 1, 0.4), hsv(hue, 0.5, 1)],
+  },
+  complementary: {
+    name: 'Complementary',
+    saturation: 0.8,
+    brightness: 1,
+    blend: 'discrete',
+    scatter: false,
+    stops: (hue) => [hsv(hue), hsv(hue + 180)],
+  },
+  analogous: {
+    name: 'Analogous',
+    saturation: 0.8,
+    brightness: 1,
+    blend: 'hsl',
+    scatter: false,
+    stops: (hue) => [hsv(hue - 30), hsv(hue), hsv(hue + 30)],
+  },
+  sunset: {
+    name: 'Sunset',
+    saturation: 1,
+    brightness: 1,
+    blend: 'lch',
+    scatter: false,
+    stops: () => ['#3d1c6e', '#b52a66', '#f2543d', '#f9a03f', '#fbd85d'],
+  },
+  neon: {
+    name: 'Neon',
+    saturation: 1,
+    brightness: 1,
+    blend: 'discrete',
+    scatter: true,
+    stops: () => ['#ff00e6', '#00f0ff', '#39ff14', '#fff200', '#ff3131'],
+  },
+  custom: {
+    name: 'Custom gradient',
+    saturation: 1,
+    brightness: 1,
+    blend: 'lch',
+    scatter: false,
+    stops: (hue, customStops) => customStops,
+  },
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
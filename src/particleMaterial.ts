@@ -0,0 +1,127 @@
+import {
+  AdditiveBlending,
+  Color,
+  IUniform,
+  ShaderMaterial,
+  Texture,
+  UniformsLib,
+  UniformsUtils,
+} from 'three';
+import { MORPH_FROM_ATTRIBUTE } from './morphMaterial';
+
+const vertexShader = `
+#include <common>
+#include <fog_pars_vertex>
+
+attribute vec3 ${MORPH_FROM_ATTRIBUTE};
+
+uniform float morphProgress;
+uniform float size;
+uniform float scale;
+uniform float pointCount;
+uniform float fadeDistance;
+
+varying float vIteration;
+varying float vFade;
+
+void main() {
+  vec3 transformed = mix(${MORPH_FROM_ATTRIBUTE}, position, morphProgress);
+  vec4 mvPosition = modelViewMatrix * vec4(transformed, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+
+  // Farther points are drawn smaller, like PointsMaterial with size attenuation
+  gl_PointSize = size * (scale / -mvPosition.z);
+
+  // Points are stored in iteration order within a subset, gl_VertexID requires WebGL 2
+  vIteration = float(gl_VertexID) / max(pointCount - 1.0, 1.0);
+
+  // Levels fade out as they approach the camera, rather than disappearing as they wrap around
+  vFade = smoothstep(0.0, fadeDistance, -mvPosition.z);
+
+  #include <fog_vertex>
+}
+`;
+
+const fragmentShader = `
+#include <common>
+#include <fog_pars_fragment>
+
+uniform vec3 diffuse;
+uniform vec3 diffuseEnd;
+uniform float iterationGradient;
+uniform sampler2D map;
+
+varying float vIteration;
+varying float vFade;
+
+void main() {
+  vec3 color = mix(diffuse, mix(diffuse, diffuseEnd, vIteration), iterationGradient);
+  vec4 texel = texture2D(map, vec2(gl_PointCoord.x, 1.0 - gl_PointCoord.y));
+  gl_FragColor = vec4(color, vFade) * texel;
+
+  #include <colorspace_fragment>
+  #include <fog_fragment>
+}
+`;
+
+type ParticleShaderMaterialProps = {
+  map: Texture;
+  size: number;
+  /** Distance from the camera over which levels fade out */
+  fadeDistance: number;
+  /** Whether colours blend from `color` to `colorEnd` along the iterations of a subset */
+  iterationGradient: boolean;
+  /** Uniforms shared by every particle material */
+  shared: {
+    morphProgress: IUniform<number>;
+    /** Half the height of the drawing buffer, point sizes are relative to it */
+    scale: IUniform<number>;
+    /** Number of points in every subset */
+    pointCount: IUniform<number>;
+  };
+};
+
+/**
+ * Particle material with perspective size attenuation, a fade towards the camera and an optional
+ * colour gradient along the iterations of a subset. It can morph between orbits like the
+ * materials from `createMorphPointsMaterial`.
+ */
+export class ParticleShaderMaterial extends ShaderMaterial {
+  constructor({ map, size, fadeDistance, iterationGradient, shared }: ParticleShaderMaterialProps) {
+    super({
+      uniforms: {
+        ...UniformsUtils.clone(UniformsLib.fog),
+        diffuse: { value: new Color(0xffffff) },
+        diffuseEnd: { value: new Color(0xffffff) },
+        iterationGradient: { value: iterationGradient ? 1 : 0 },
+        map: { value: map },
+        size: { value: size },
+        fadeDistance: { value: fadeDistance },
+        ...shared,
+      },
+      vertexShader,
+      fragmentShader,
+      blending: AdditiveBlending,
+      depthTest: false,
+      transparent: false,
+      fog: true,
+    });
+  }
+
+  get color(): Color {
+    return this.uniforms.diffuse.value;
+  }
+
+  /** Colour at the last iteration of a subset, when the iteration gradient is on */
+  get colorEnd(): Color {
+    return this.uniforms.diffuseEnd.value;
+  }
+
+  get size(): number {
+    return this.uniforms.size.value;
+  }
+
+  set size(size: number) {
+    this.uniforms.size.value = size;
+  }
+}
@@ -0,0 +1,43 @@
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const RECORDING_FRAME_RATE = 60;
+
+export type StreamRecording = {
+  /** Stops recording and resolves with the recorded video */
+  stop: () => Promise<Blob>;
+};
+
+export function isStreamRecordingSupported() {
+  return typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+}
+
+/**
+ * Records whatever is drawn on the canvas into a WebM video, in real time
+ */
+export function startStreamRecording(canvas: HTMLCanvasElement): StreamRecording {
+  if (!isStreamRecordingSupported()) {
+    throw new Error('Recording is not supported by this browser.');
+  }
+  const stream = canvas.captureStream(RECORDING_FRAME_RATE);
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = ({ data }) => {
+    if (data.size > 0) {
+      chunks.push(data);
+    }
+  };
+  // Flush data regularly, so long recordings don't end up as one huge chunk
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+  };
+}
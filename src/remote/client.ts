@@ -0,0 +1,113 @@
+import autoBind from 'auto-bind';
+import { throttle } from 'lodash';
+import { loadRemoteUrl, saveRemoteUrl } from '../util/storage';
+import { DEFAULT_REMOTE_URL } from './protocol';
+
+export type RemoteStatus = 'disconnected' | 'connecting' | 'connected';
+export type RemoteState = {
+  /** WebSocket endpoint of the relay */
+  url: string;
+  status: RemoteStatus;
+  error: string | null;
+};
+type Listener = (state: RemoteState) => unknown;
+
+// Time between attempts to reconnect to the relay, in milliseconds
+const RECONNECT_DELAY = 2000;
+// Settings change every frame while flying with a gamepad, so they are sent at most this often
+const SEND_INTERVAL = 100;
+
+/**
+ * Connects to a remote control relay, reconnecting when the connection drops. Remote controls
+ * send it commands, and it sends them the settings back as they change.
+ */
+export default class RemoteClient {
+  state: RemoteState = {
+    url: loadRemoteUrl() ?? DEFAULT_REMOTE_URL,
+    status: 'disconnected',
+    error: null,
+  };
+  private listeners: Listener[] = [];
+  private onMessage: (text: string) => unknown;
+  private socket?: WebSocket;
+  private reconnectTimeout?: number;
+  /** Latest state message, sent again whenever the connection opens */
+  private stateMessage?: string;
+  private flushState = throttle(() => {
+    if (this.stateMessage && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(this.stateMessage);
+    }
+  }, SEND_INTERVAL);
+
+  constructor(onMessage: (text: string) => unknown) {
+    autoBind(this);
+    this.onMessage = onMessage;
+  }
+
+  /**
+   * Calls `listener` whenever the state changes, returns a function to stop
+   */
+  subscribe(listener: Listener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  connect(url = this.state.url) {
+    this.disconnect();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      this.update({
+        url,
+        error: 'Not a valid WebSocket URL, it should start with ws:// or wss://',
+      });
+      return;
+    }
+    saveRemoteUrl(url);
+    this.socket = socket;
+    this.update({ url, status: 'connecting', error: null });
+
+    socket.onopen = () => {
+      this.update({ status: 'connected', error: null });
+      this.flushState();
+    };
+    socket.onmessage = ({ data }) => {
+      if (typeof data === 'string') {
+        this.onMessage(data);
+      }
+    };
+    socket.onclose = () => {
+      // Sockets that were replaced or closed on purpose stay closed
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = undefined;
+      this.update({ status: 'connecting', error: `Unable to reach ${url}, retrying…` });
+      this.reconnectTimeout = window.setTimeout(() => this.connect(url), RECONNECT_DELAY);
+    };
+  }
+
+  disconnect() {
+    window.clearTimeout(this.reconnectTimeout);
+    const { socket } = this;
+    this.socket = undefined;
+    socket?.close();
+    this.update({ status: 'disconnected', error: null });
+  }
+
+  /**
+   * Sends the settings to the remote controls, throttled so only the latest ones are sent
+   */
+  sendState(message: string) {
+    this.stateMessage = message;
+    this.flushState();
+  }
+
+  private update(state: Partial<RemoteState>) {
+    this.state = { ...this.state, ...state };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,120 @@
+import { HOPALONG_ACTIONS } from '../actions';
+import { MIDI_PARAMS } from '../midi/bindings';
+import { HopalongAction, HopalongCommand, Settings, SimSettings } from '../types/hopalong';
+import { sanitizeSettings } from '../util/storage';
+
+export const DEFAULT_REMOTE_URL = 'ws://localhost:8080';
+
+type OscArgument = number | string | boolean;
+/** An OSC-style message, such as `/speed 480` */
+export type OscMessage = {
+  address: string;
+  args: OscArgument[];
+};
+
+/** Shorter addresses for the actions used most, any action is also at `/action/<name>` */
+const ACTION_ADDRESSES: { [address: string]: HopalongAction } = {
+  '/orbit/next': 'nextOrbit',
+  '/camera/recenter': 'recenter',
+  '/reset': 'reset',
+};
+
+function parseArgument(arg: string): OscArgument {
+  if (arg === 'true' || arg === 'false') {
+    return arg === 'true';
+  }
+  const number = Number(arg);
+  return arg !== '' && isFinite(number) ? number : arg;
+}
+
+/**
+ * Parses an OSC-style text message, an address followed by arguments separated by spaces
+ */
+export function parseOscMessage(text: string): OscMessage | null {
+  const [address, ...args] = text.trim().split(/\s+/);
+  if (!address.startsWith('/')) {
+    return null;
+  }
+  return { address, args: args.map(parseArgument) };
+}
+
+/**
+ * Works out what an OSC-style message does. Any setting can be set at `/<name>`, and toggles
+ * also take 1 and 0 as sent by OSC controller apps.
+ */
+export function resolveOscMessage(
+  { address, args }: OscMessage,
+  settings: SimSettings
+): HopalongCommand[] {
+  const [value] = args;
+  if (address === '/play' || address === '/pause') {
+    return [{ type: 'settings', settings: { isPlaying: address === '/play' } }];
+  }
+  const action = ACTION_ADDRESSES[address] || address.replace(/^\/action\//, '');
+  if (HOPALONG_ACTIONS.includes(action as HopalongAction)) {
+    return [{ type: 'action', action: action as HopalongAction }];
+  }
+  const param = MIDI_PARAMS.find((name) => address === `/param/${name}`);
+  if (param && typeof value === 'number' && isFinite(value)) {
+    return [
+      {
+        type: 'settings',
+        settings: { pinnedParams: { ...settings.pinnedParams, [param]: value } },
+      },
+    ];
+  }
+  const name = address.slice(1);
+  const toggle = value === 1 || value === 0 ? value === 1 : value;
+  const sanitized = {
+    ...sanitizeSettings({ [name]: toggle }),
+    ...sanitizeSettings({ [name]: value }),
+  };
+  return name in sanitized ? [{ type: 'settings', settings: sanitized }] : [];
+}
+
+/**
+ * Works out what a remote message does, messages that aren't understood do nothing. Messages are
+ * OSC-style text, or JSON such as `{"settings": {"speed": 480}}`, `{"action": "nextOrbit"}` or
+ * `{"address": "/speed", "args": [480]}`.
+ */
+export function resolveRemoteMessage(text: string, settings: SimSettings): HopalongCommand[] {
+  if (!text.trim().startsWith('{')) {
+    const message = parseOscMessage(text);
+    return message ? resolveOscMessage(message, settings) : [];
+  }
+  let data: { settings?: unknown; action?: unknown; address?: unknown; args?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return [];
+  }
+  if (typeof data?.address === 'string') {
+    const args = Array.isArray(data.args) ? data.args : [];
+    return resolveOscMessage({ address: data.address, args }, settings);
+  }
+  if (HOPALONG_ACTIONS.includes(data?.action as HopalongAction)) {
+    return [{ type: 'action', action: data.action as HopalongAction }];
+  }
+  const remoteSettings: Partial<Settings> = sanitizeSettings(data?.settings);
+  const isPlaying = (data?.settings as { isPlaying?: unknown } | undefined)?.isPlaying;
+  if (typeof isPlaying === 'boolean') {
+    remoteSettings.isPlaying = isPlaying;
+  }
+  return Object.keys(remoteSettings).length > 0
+    ? [{ type: 'settings', settings: remoteSettings }]
+    : [];
+}
+
+/**
+ * Message sent to remote controls whenever the settings change. It is keyed by `state` rather
+ * than `settings`, so other visualisers on the same relay don't apply it.
+ */
+export function createStateMessage(settings: Settings): string {
+  return JSON.stringify({
+    state: {
+      ...sanitizeSettings(settings),
+      isPlaying: settings.isPlaying,
+      orbitParams: settings.orbitParams,
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import autoBind from 'auto-bind';
+import Hopalong from '../hopalong';
+import { Movement, OrbitEvent, SimSettings, SyncRole, SyncView } from '../types/hopalong';
+import { loadSyncView, saveSyncView } from '../util/storage';
+import { SYNC_CHANNEL_NAME, SyncMessage, diffSyncedSettings } from './protocol';
+import { DEFAULT_SYNC_VIEW } from './view';
+
+export type SyncState = {
+  /** Null while this window flies on its own */
+  role: SyncRole | null;
+  view: SyncView;
+  error: string | null;
+};
+type Listener = (state: SyncState) => unknown;
+type Options = {
+  getHopalong: () => Hopalong;
+  /** Applies settings from the leader the way the settings panel would */
+  applySettings: (settings: Partial<SimSettings>) => unknown;
+};
+
+// Time between snapshots of the leader's flight, which undo any drift in the followers, in seconds
+const SNAPSHOT_INTERVAL = 2;
+
+/**
+ * Keeps windows of the same browser flying together. The leader sends its settings, orbits and
+ * every frame it draws, and followers draw the same frames, each showing its own part of the
+ * panorama.
+ */
+export default class FlightSync {
+  state: SyncState = {
+    role: null,
+    view: loadSyncView() ?? DEFAULT_SYNC_VIEW,
+    error: null,
+  };
+  private listeners: Listener[] = [];
+  private options: Options;
+  private channel?: BroadcastChannel;
+  /** Settings the followers were last sent */
+  private sentSettings: Partial<SimSettings> = {};
+  private sinceSnapshot = 0;
+
+  constructor(options: Options) {
+    autoBind(this);
+    this.options = options;
+  }
+
+  /**
+   * Calls `listener` whenever the state changes, returns a function to stop
+   */
+  subscribe(listener: Listener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((current) => current !== listener);
+    };
+  }
+
+  setRole(role: SyncRole | null) {
+    this.channel?.close();
+    this.channel = undefined;
+    if (role && typeof BroadcastChannel === 'undefined') {
+      this.update({ role: null, error: 'This browser is unable to sync windows' });
+      return;
+    }
+    this.update({ role, error: null });
+    this.attach();
+    if (!role) {
+      return;
+    }
+    this.channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    this.channel.onmessage = ({ data }: MessageEvent<SyncMessage>) => this.onMessage(data);
+    if (role === 'leader') {
+      this.sendEverything();
+    } else {
+      this.send({ type: 'hello' });
+    }
+  }
+
+  setView(view: SyncView) {
+    saveSyncView(view);
+    this.update({ view });
+    this.options.getHopalong().setView(view);
+  }
+
+  /**
+   * Brings a newly created visualiser in line with the role and view
+   */
+  attach() {
+    const hopalong = this.options.getHopalong();
+    hopalong.setFollowing(this.state.role === 'follower');
+    hopalong.setView(this.state.view);
+  }
+
+  /**
+   * Sends followers the settings that changed since they were last sent
+   */
+  onSettingsChange(settings: SimSettings) {
+    if (this.state.role !== 'leader') {
+      return;
+    }
+    const changed = diffSyncedSettings(this.sentSettings, settings);
+    this.sentSettings = settings;
+    if (Object.keys(changed).length > 0) {
+      this.send({ type: 'settings', settings: changed });
+    }
+  }
+
+  onFrame(delta: number, movement: Movement) {
+    if (this.state.role !== 'leader') {
+      return;
+    }
+    this.send({ type: 'frame', delta, movement });
+    this.sinceSnapshot += delta;
+    if (this.sinceSnapshot >= SNAPSHOT_INTERVAL) {
+      this.sendSnapshot();
+    }
+  }
+
+  onOrbit({ seed, attractor }: OrbitEvent) {
+    if (this.state.role !== 'leader') {
+      return;
+    }
+    this.sentSettings = { ...this.sentSettings, seed, attractor };
+    this.send({ type: 'orbit', seed, attractor });
+  }
+
+  private onMessage(message: SyncMessage) {
+    const { role } = this.state;
+    const hopalong = this.options.getHopalong();
+    if (role === 'leader') {
+      if (message.type === 'hello') {
+        this.sendEverything();
+      }
+      return;
+    }
+    switch (message.type) {
+      case 'settings':
+        this.options.applySettings(message.settings);
+        break;
+      case 'orbit':
+        this.options.applySettings({ seed: message.seed, attractor: message.attractor });
+        break;
+      case 'frame':
+        hopalong.followFrame(message.delta, message.movement);
+        break;
+      case 'snapshot':
+        hopalong.applyFlightSnapshot(message.snapshot);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private sendEverything() {
+    this.sentSettings = {};
+    this.onSettingsChange(this.options.getHopalong().getSettings());
+    this.sendSnapshot();
+  }
+
+  private sendSnapshot() {
+    this.sinceSnapshot = 0;
+    this.send({ type: 'snapshot', snapshot: this.options.getHopalong().getFlightSnapshot() });
+  }
+
+  private send(message: SyncMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private update(state: Partial<SyncState>) {
+    this.state = { ...this.state, ...state };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,50 @@
+import { AttractorName, FlightSnapshot, Movement, SimSettings } from '../types/hopalong';
+
+export const SYNC_CHANNEL_NAME = 'hopalong.sync';
+
+export type SyncMessage =
+  /** A follower joined and needs everything */
+  | { type: 'hello' }
+  /** Settings that changed on the leader, or all of them for followers that joined */
+  | { type: 'settings'; settings: Partial<SimSettings> }
+  /** The leader moved on to the next orbit */
+  | { type: 'orbit'; seed: number; attractor: AttractorName }
+  /** The leader drew a frame, with the movement it flew */
+  | { type: 'frame'; delta: number; movement: Movement }
+  | { type: 'snapshot'; snapshot: FlightSnapshot };
+
+/**
+ * Settings followers keep their own values of. They don't regenerate orbits by themselves, and
+ * their movement comes with every frame.
+ */
+export const UNSYNCED_SETTINGS: (keyof SimSettings)[] = [
+  'speed',
+  'rotationSpeed',
+  'mouseLocked',
+  'regenerationMode',
+  'regenerationInterval',
+  'exportResolution',
+  'recordingMode',
+  'recordingDuration',
+  'inputSmoothing',
+  'inputMaxAcceleration',
+];
+
+/**
+ * Settings in `next` that differ from `previous`, leaving out the ones followers keep
+ */
+export function diffSyncedSettings(
+  previous: Partial<SimSettings>,
+  next: Partial<SimSettings>
+): Partial<SimSettings> {
+  const changed: Partial<SimSettings> = {};
+  for (const name of Object.keys(next) as (keyof SimSettings)[]) {
+    if (
+      !UNSYNCED_SETTINGS.includes(name) &&
+      JSON.stringify(previous[name]) !== JSON.stringify(next[name])
+    ) {
+      Object.assign(changed, { [name]: next[name] });
+    }
+  }
+  return changed;
+}
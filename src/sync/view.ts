@@ -0,0 +1,33 @@
+import { SyncView } from '../types/hopalong';
+
+export const SYNC_VIEW_MODES: SyncView['mode'][] = ['whole', 'slice', 'angle'];
+export const MAX_SYNC_COLUMNS = 8;
+
+export const DEFAULT_SYNC_VIEW: SyncView = {
+  mode: 'whole',
+  columns: 1,
+  column: 0,
+};
+
+/** Arguments of `PerspectiveCamera.setViewOffset` that show this screen's slice of the panorama */
+export function viewOffset({ columns, column }: SyncView, width: number, height: number) {
+  return {
+    fullWidth: width * columns,
+    fullHeight: height,
+    x: width * column,
+    y: 0,
+    width,
+    height,
+  };
+}
+
+/**
+ * Angle the camera turns left by so angled screens line up, in radians. The middle of the
+ * panorama looks straight ahead.
+ *
+ * @param fov Vertical field of view, in degrees
+ */
+export function viewYaw({ columns, column }: SyncView, fov: number, aspect: number) {
+  const horizontalFov = 2 * Math.atan(Math.tan((fov * Math.PI) / 360) * aspect);
+  return ((columns - 1) / 2 - column) * horizontalFov;
+}
@@ -1,4 +1,4 @@
-import { Material, Points, Vector3 } from 'three';
+import { Material, Points } from 'three';
 
 export type OrbitParams<T> = {
   a: T;
@@ -8,7 +8,10 @@ export type OrbitParams<T> = {
   e: T;
 };
 export type Orbit<T> = {
-  subsets: SubsetPoint[][];
+  /** Normalized xyz positions of every subset, three values per point */
+  positions: Float32Array;
+  /** Views into `positions`, one per subset */
+  subsets: Float32Array[];
   xMin: T;
   xMax: T;
   yMin: T;
@@ -16,11 +19,67 @@ export type Orbit<T> = {
   scaleX: T;
   scaleY: T;
 };
-export type SubsetPoint = {
-  x: number;
-  y: number;
-  vertex: Vector3;
+export type AttractorName =
+  | 'hopalongExtended'
+  | 'hopalong'
+  | 'hopalong2'
+  | 'martinPositive'
+  | 'martinNegative'
+  | 'gumowskiMira'
+  | 'clifford'
+  | 'deJong';
+export type ParamRange = [number, number];
+export type Attractor = {
+  /** Name shown in the UI */
+  name: string;
+  /** Computes the next point of the orbit from the current one */
+  iterate: (x: number, y: number, params: OrbitParams<number>) => [number, number];
+  /** Range each orbit parameter is randomly picked from */
+  paramRanges: OrbitParams<ParamRange>;
+  /** Point every orbit subset starts iterating from */
+  start: [number, number];
+};
+export type PaletteName =
+  | 'random'
+  | 'monochrome'
+  | 'complementary'
+  | 'analogous'
+  | 'sunset'
+  | 'neon'
+  | 'custom';
+export type Palette = {
+  /** Name shown in the UI */
+  name: string;
+  /** Factor the saturation of every colour is scaled by */
+  saturation: number;
+  /** Factor the brightness (HSV value) of every colour is scaled by */
+  brightness: number;
+  /** How colours between the stops are mixed, discrete palettes only use the stops themselves */
+  blend: 'hsl' | 'lch' | 'discrete';
+  /** Whether subsets pick random colours of the palette, rather than being spread along it */
+  scatter: boolean;
+  /** Colour stops of the palette, from a seeded base hue in degrees and the custom stops */
+  stops: (hue: number, customStops: string[]) => string[];
 };
+/**
+ * When new orbits are generated: every few seconds, never, once particles have flown through
+ * every level, or only when asked for
+ */
+export type RegenerationMode = 'interval' | 'frozen' | 'levelCycle' | 'manual';
+export type AudioInputKind = 'file' | 'microphone';
+/** What happens when the audio input has a beat */
+export type AudioBeatAction = 'none' | 'nextOrbit' | 'hueShift';
+export type RecordingMode = 'realtime' | 'offline';
+export type Recording = {
+  mode: RecordingMode;
+  /** Time the recording started at, in milliseconds */
+  startedAt: number;
+  /** Seconds of video to render, offline only */
+  duration: number;
+  /** Seconds of video rendered so far, offline only */
+  rendered: number;
+};
+export type ExportResolution = 'fullHd' | 'qhd' | 'uhd4k' | 'uhd8k' | 'a4Print' | 'a3Print';
 export type ParticleSet<TMaterial extends Material | Material[]> = {
   /** The material/colour used to draw this ParticleSet */
   myMaterial: TMaterial;
@@ -35,21 +94,109 @@ export type ParticleSet<TMaterial extends Material | Material[]> = {
 };
 /** Settings that can be adjusted while the simulation is running */
 export type SimSettings = {
+  /** Forward speed, in units per second */
   speed: number;
+  /** Rotation speed, in radians per second */
   rotationSpeed: number;
   cameraFov: number;
   pointsPerSubset: number;
   subsetCount: number;
   levelCount: number;
   mouseLocked: boolean;
+  /** Formula used to generate the orbits */
+  attractor: AttractorName;
+  /** Whether a random attractor is picked every time the orbit is regenerated */
+  randomizeAttractor: boolean;
+  /** Seed of the current orbit, the orbits that follow are derived from it */
+  seed: number;
+  /** Orbit parameters that are kept instead of being randomly picked */
+  pinnedParams: Partial<OrbitParams<number>>;
+  /** Size of exported images */
+  exportResolution: ExportResolution;
+  regenerationMode: RegenerationMode;
+  /** Time between orbits in the interval mode, in seconds */
+  regenerationInterval: number;
+  bloom: boolean;
+  bloomStrength: number;
+  /** Whether particles leave motion trails */
+  trails: boolean;
+  /** Fraction of the trail kept every 60th of a second */
+  trailLength: number;
+  chromaticAberration: boolean;
+  /** Offset of the colour channels, as a fraction of the screen size */
+  chromaticAberrationAmount: number;
+  /** How much bass speeds up the flight, as a factor of the speed at full volume */
+  audioSpeedAmount: number;
+  /** How much the mids add to the rotation speed at full volume, in radians per second */
+  audioRotationAmount: number;
+  audioBeatAction: AudioBeatAction;
+  /** Factor the bass energy needs to rise above its recent average by to count as a beat */
+  audioSensitivity: number;
+  /** Time input sources take to reach about two thirds of a change, in seconds, 0 for none */
+  inputSmoothing: number;
+  /** Largest change of speed input sources can make, in units per second squared, 0 for any */
+  inputMaxAcceleration: number;
+  /** Whether particles fade towards the camera and can be coloured along their iterations */
+  shaderParticles: boolean;
+  /** Whether shader particles blend into the next subset's colour along their iterations */
+  iterationGradient: boolean;
+  /** Whether new orbits morph into place, rather than replacing levels as they wrap around */
+  morphOrbits: boolean;
+  /** Length of morphs between orbits, in seconds */
+  morphDuration: number;
+  palette: PaletteName;
+  /** Colour stops of the custom palette, as hex colours */
+  paletteStops: string[];
+  /** Whether flights are recorded as they happen, or rendered frame by frame */
+  recordingMode: RecordingMode;
+  /** Length of offline recordings, in seconds */
+  recordingDuration: number;
+};
+/** Settings that size the particle buffers, so must be whole numbers within bounds */
+export type CountSetting = 'pointsPerSubset' | 'subsetCount' | 'levelCount';
+/** State of the simulation that is shown but can't be adjusted directly */
+export type SimState = {
+  orbitParams: OrbitParams<number>;
+  /** Whether the GPU can draw post-processing effects */
+  effectsSupported: boolean;
+  /** Whether effects were reduced, because the frame rate dropped too low */
+  effectsReduced: boolean;
 };
-export type MenuSettings = Omit<SimSettings, 'mouseLocked'>;
+export type MenuSettings = Omit<SimSettings, 'mouseLocked'> & SimState;
 export type ToolbarSettings = {
   isPlaying: boolean;
+  recording: Recording | null;
+  /** Audio the flight reacts to, if any */
+  audioInput: AudioInputKind | null;
+  /** Whether the movement of the flight is being recorded or played back */
+  flightInput: 'recording' | 'playback' | null;
+  /** Why the last image export or recording failed, until the next one starts */
+  captureError: string | null;
+};
+export type Settings = SimSettings & SimState & ToolbarSettings;
+/** Named set of settings saved by the user */
+export type Preset = {
+  id: string;
+  name: string;
+  settings: Partial<SimSettings>;
 };
-export type Settings = SimSettings & ToolbarSettings;
 export type OnSettingsChange<T> = (settings: Partial<T>) => unknown;
 
+export type RepeatMode = 'off' | 'all' | 'one';
+/** Where a track's audio comes from, files are kept so they play offline */
+export type TrackSource = { type: 'file'; file: Blob } | { type: 'url'; url: string };
+export type Track = {
+  id: string;
+  title: string;
+  source: TrackSource;
+};
+export type PlaylistOptions = {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  /** Between 0 and 1 */
+  volume: number;
+};
+
 export type Movement = {
   speed: number;
   rotationSpeed: number;
@@ -62,6 +209,134 @@ export type Bounds = {
   height: number;
 };
 
+/** One-off changes that keys, gamepad buttons and other inputs can trigger */
+export type HopalongAction =
+  | 'fovUp'
+  | 'fovDown'
+  | 'levelsUp'
+  | 'levelsDown'
+  | 'pointsUp'
+  | 'pointsDown'
+  | 'recenter'
+  | 'reset'
+  | 'nextOrbit'
+  | 'cycleRegenerationMode'
+  | 'exportImage'
+  | 'toggleCursor';
+/** What MIDI controllers and remote controls ask for, changing settings or triggering an action */
+export type HopalongCommand =
+  | { type: 'settings'; settings: Partial<Settings> }
+  | { type: 'action'; action: HopalongAction };
+/** What gamepad inputs can be bound to, movements take a direction, actions are pressed */
+export type GamepadAction =
+  | 'speed'
+  | 'rotation'
+  | 'transverseX'
+  | 'transverseY'
+  | 'fov'
+  | HopalongAction;
+export type GamepadInput =
+  | { type: 'axis'; index: number; inverted: boolean }
+  | { type: 'button'; index: number };
+/** The action's value is the positive input's, minus the negative input's */
+export type GamepadBinding = {
+  positive: GamepadInput | null;
+  negative: GamepadInput | null;
+};
+/** Controls of a kind of gamepad, keyed by `Gamepad.id` */
+export type GamepadProfile = {
+  id: string;
+  bindings: { [action in GamepadAction]: GamepadBinding };
+  /** Axis values below this are ignored, between 0 and 1 */
+  deadzone: number;
+  /** Exponent applied to axis values, above 1 gives finer control near the centre */
+  curve: number;
+};
+/** Saved gamepad profiles, keyed by `Gamepad.id` */
+export type GamepadProfiles = { [id: string]: GamepadProfile };
+
+/** Settings MIDI knobs and faders can be bound to */
+export type MidiSetting = 'speed' | 'rotationSpeed' | 'cameraFov' | 'levelCount' | 'subsetCount';
+/** What MIDI controls can be bound to, knobs and faders set values, notes are pressed */
+export type MidiTarget =
+  | { type: 'setting'; setting: MidiSetting }
+  | { type: 'param'; param: keyof OrbitParams<number> }
+  | { type: 'action'; action: HopalongAction }
+  | { type: 'palette'; palette: PaletteName };
+/** Knobs and faders send control changes (CC), keys and pads send notes */
+export type MidiControl = {
+  type: 'cc' | 'note';
+  /** Between 0 and 15 */
+  channel: number;
+  /** Controller or note number, between 0 and 127 */
+  number: number;
+};
+export type MidiBinding = {
+  control: MidiControl;
+  target: MidiTarget;
+};
+
 export interface MovementStrategy {
-  (bounds: Bounds, current: Movement, gamepad: Gamepad): Movement;
+  /** `delta` is the time since the previous update, in seconds */
+  (bounds: Bounds, current: Movement, gamepad: Gamepad, delta: number): Movement;
 }
+
+/**
+ * Steers the flight, it is updated every frame. Keyboards, gamepads, recordings and other
+ * inputs implement it.
+ */
+export interface InputSource {
+  /**
+   * Returns where the flight should go, or null to leave it to the other sources. `delta` is the
+   * time since the previous update, in seconds.
+   */
+  update(bounds: Bounds, current: Movement, delta: number): Movement | null;
+  /** Whether the movement is applied as it is, rather than smoothed */
+  exact?: boolean;
+}
+/** Movement at `time` seconds into a recorded flight */
+export type MovementFrame = Movement & { time: number };
+export type MovementRecording = {
+  version: number;
+  /** Settings at the start, so the same orbits are flown through */
+  settings: Partial<SimSettings>;
+  /** Position of the camera at the start, it eases towards the movement from there */
+  camera: { x: number; y: number };
+  frames: MovementFrame[];
+};
+
+/** Leaders broadcast their flight to the other windows, followers mirror it */
+export type SyncRole = 'leader' | 'follower';
+/**
+ * Part of a panorama spread over several screens side by side. Slices split one wide view,
+ * angled screens each turn the camera by their field of view.
+ */
+export type SyncView = {
+  mode: 'whole' | 'slice' | 'angle';
+  columns: number;
+  /** Index of this screen from the left */
+  column: number;
+};
+/** Where the particles and camera are, so followers can catch up with the leader */
+export type FlightSnapshot = {
+  camera: { x: number; y: number };
+  /** Depth and rotation of every particle set, with its level and subset */
+  particles: [level: number, subset: number, z: number, rotation: number][];
+};
+
+/** The orbit the flight moved on to, or that replaced the current one */
+export type OrbitEvent = {
+  seed: number;
+  attractor: AttractorName;
+  orbitParams: OrbitParams<number>;
+};
+/** Events of the visualiser, and what their listeners are called with */
+export type HopalongEvents = {
+  /** Settings changed by the visualiser itself, from the keyboard, gamepads or effects */
+  settings: (settings: SimSettings & SimState) => unknown;
+  orbit: (orbit: OrbitEvent) => unknown;
+  /** A frame was drawn, with the movement that was flown including the audio's */
+  frame: (delta: number, movement: Movement) => unknown;
+  /** An action failed, like saving an image that is too large for the browser */
+  error: (error: Error) => unknown;
+};
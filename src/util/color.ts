@@ -1,6 +1,43 @@
 import chroma from 'chroma-js';
+import { Palette } from '../types/hopalong';
+import { Random } from './random';
 
-export function hsvToHsl(h: number, s: number, v: number): [number, number, number] {
-  const [hue, sat, light] = chroma(h, s, v, 'hsv').hsl();
-  return [hue, sat, light];
+/** Red, green and blue components of an sRGB colour, in [0, 1] */
+export type RGB = [number, number, number];
+
+function createScale({ blend }: Palette, stops: string[]) {
+  const scale = chroma.scale(stops);
+  return blend === 'discrete' ? scale.classes(stops.length) : scale.mode(blend);
+}
+
+/**
+ * Rotates the hue of the colour by `degrees`
+ */
+export function shiftHue([r, g, b]: RGB, degrees: number): RGB {
+  const [red, green, blue] = chroma.gl(r, g, b).set('hsl.h', `+${degrees}`).gl();
+  return [red, green, blue];
+}
+
+/**
+ * Picks a colour of the palette for every subset, the same random sequence always
+ * yields the same colours
+ */
+export function generatePaletteColors(
+  palette: Palette,
+  count: number,
+  random: Random,
+  customStops: string[]
+): RGB[] {
+  const valid = palette.stops(random() * 360, customStops).filter((stop) => chroma.valid(stop));
+  // Mixing needs two colours, a lone one is simply used for everything
+  const fallback = valid[0] || 'white';
+  const scale = createScale(palette, valid.length > 1 ? valid : [fallback, fallback]);
+  return new Array(count).fill(0).map((_, i) => {
+    const position = palette.scatter ? random() : count > 1 ? i / (count - 1) : 0;
+    const [r, g, b] = scale(position)
+      .set('hsv.s', `*${palette.saturation}`)
+      .set('hsv.v', `*${palette.brightness}`)
+      .gl();
+    return [r, g, b];
+  });
 }
@@ -0,0 +1,27 @@
+let table: Uint32Array | undefined;
+
+function getTable() {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c >>> 0;
+    }
+  }
+  return table;
+}
+
+/**
+ * CRC-32 checksum as used by PNG and ZIP, `crc` continues a previous checksum
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  const t = getTable();
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = t[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
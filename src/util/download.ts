@@ -0,0 +1,14 @@
+/**
+ * Saves a blob as a file through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight away can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
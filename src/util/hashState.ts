@@ -0,0 +1,159 @@
+import { ATTRACTOR_NAMES } from '../attractors';
+import { COUNT_SETTINGS, REGENERATION_MODES } from '../hopalong';
+import { MAX_PALETTE_STOPS, PALETTE_NAMES } from '../palettes';
+import {
+  AttractorName,
+  OrbitParams,
+  PaletteName,
+  RegenerationMode,
+  SimSettings,
+} from '../types/hopalong';
+import { parseSeed } from './random';
+import { SETTINGS_VERSION, clampCount, migrateSettings } from './storage';
+
+type NumberField =
+  | 'speed'
+  | 'rotationSpeed'
+  | 'cameraFov'
+  | 'pointsPerSubset'
+  | 'subsetCount'
+  | 'levelCount'
+  | 'morphDuration'
+  | 'regenerationInterval'
+  | 'bloomStrength'
+  | 'trailLength'
+  | 'chromaticAberrationAmount';
+type BooleanField =
+  | 'mouseLocked'
+  | 'randomizeAttractor'
+  | 'morphOrbits'
+  | 'shaderParticles'
+  | 'iterationGradient'
+  | 'bloom'
+  | 'trails'
+  | 'chromaticAberration';
+
+const NUMBER_FIELDS: NumberField[] = [
+  'speed',
+  'rotationSpeed',
+  'cameraFov',
+  'pointsPerSubset',
+  'subsetCount',
+  'levelCount',
+  'morphDuration',
+  'regenerationInterval',
+  'bloomStrength',
+  'trailLength',
+  'chromaticAberrationAmount',
+];
+const BOOLEAN_FIELDS: BooleanField[] = [
+  'mouseLocked',
+  'randomizeAttractor',
+  'morphOrbits',
+  'shaderParticles',
+  'iterationGradient',
+  'bloom',
+  'trails',
+  'chromaticAberration',
+];
+const PARAM_NAMES: (keyof OrbitParams<number>)[] = ['a', 'b', 'c', 'd', 'e'];
+
+/**
+ * Serializes settings into a URL hash, e.g. `#v=2&speed=480&seed=1234&a=2.5`.
+ * The orbit parameters are derived from the seed, so only pinned parameters are stored.
+ */
+export function settingsToHash(settings: SimSettings): string {
+  const params = new URLSearchParams();
+  params.set('v', SETTINGS_VERSION.toString());
+  for (const field of NUMBER_FIELDS) {
+    params.set(field, settings[field].toString());
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    params.set(field, settings[field] ? '1' : '0');
+  }
+  params.set('attractor', settings.attractor);
+  params.set('seed', settings.seed.toString());
+  params.set('regenerationMode', settings.regenerationMode);
+  params.set('palette', settings.palette);
+  if (settings.palette === 'custom') {
+    params.set('stops', settings.paletteStops.map((stop) => stop.replace(/^#/, '')).join(','));
+  }
+  for (const name of PARAM_NAMES) {
+    const value = settings.pinnedParams[name];
+    if (typeof value !== 'undefined') {
+      params.set(name, value.toString());
+    }
+  }
+  return `#${params.toString()}`;
+}
+
+/**
+ * Reads settings from a URL hash, invalid or missing values are left out.
+ * Links from before the hash was versioned are migrated from version 1.
+ */
+export function settingsFromHash(hash: string): Partial<SimSettings> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const settings: Partial<SimSettings> = {};
+
+  const parseNumber = (value: string | null) => {
+    const number = value === null || value.trim() === '' ? NaN : Number(value);
+    return isFinite(number) ? number : undefined;
+  };
+
+  for (const field of NUMBER_FIELDS) {
+    const value = parseNumber(params.get(field));
+    if (typeof value !== 'undefined') {
+      settings[field] = value;
+    }
+  }
+  for (const setting of COUNT_SETTINGS) {
+    const value = settings[setting];
+    if (typeof value !== 'undefined') {
+      settings[setting] = clampCount(setting, value);
+    }
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    const value = params.get(field);
+    if (value !== null) {
+      settings[field] = value === '1' || value === 'true';
+    }
+  }
+
+  const attractor = params.get('attractor');
+  if (attractor !== null && ATTRACTOR_NAMES.includes(attractor as AttractorName)) {
+    settings.attractor = attractor as AttractorName;
+  }
+  const regenerationMode = params.get('regenerationMode');
+  if (REGENERATION_MODES.includes(regenerationMode as RegenerationMode)) {
+    settings.regenerationMode = regenerationMode as RegenerationMode;
+  }
+  const palette = params.get('palette');
+  if (palette !== null && PALETTE_NAMES.includes(palette as PaletteName)) {
+    settings.palette = palette as PaletteName;
+  }
+  const stops = params.get('stops');
+  if (stops !== null) {
+    settings.paletteStops = stops
+      .split(',')
+      .filter((stop) => /^[0-9a-f]{6}$/i.test(stop))
+      .slice(0, MAX_PALETTE_STOPS)
+      .map((stop) => `#${stop}`);
+  }
+  const seed = parseSeed(params.get('seed') || '');
+  if (typeof seed !== 'undefined') {
+    settings.seed = seed;
+  }
+
+  const pinnedParams: Partial<OrbitParams<number>> = {};
+  for (const name of PARAM_NAMES) {
+    const value = parseNumber(params.get(name));
+    if (typeof value !== 'undefined') {
+      pinnedParams[name] = value;
+    }
+  }
+  if (Object.keys(pinnedParams).length > 0) {
+    settings.pinnedParams = pinnedParams;
+  }
+  const version = parseNumber(params.get('v')) ?? 1;
+  return migrateSettings(settings, version);
+}
@@ -1,6 +1,9 @@
 //create your forceUpdate hook
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { v4 } from 'uuid';
+import MusicPlayer, { MusicState } from '../music/player';
+import RemoteClient, { RemoteState } from '../remote/client';
+import FlightSync, { SyncState } from '../sync/flightSync';
 
 /**
  * https://stackoverflow.com/questions/46240647/react-how-to-force-a-function-component-to-render
@@ -13,3 +16,38 @@ export function useId() {
   const [id] = useState(v4());
   return id;
 }
+/**
+ * State of the music player, rendering again when it changes
+ */
+export function useMusicState(music: MusicPlayer): MusicState {
+  const [state, updateState] = useState(music.state);
+  useEffect(() => {
+    updateState(music.state);
+    return music.subscribe(updateState);
+  }, [music]);
+  return state;
+}
+
+/**
+ * State of the remote control connection, rendering again when it changes
+ */
+export function useRemoteState(remote: RemoteClient): RemoteState {
+  const [state, updateState] = useState(remote.state);
+  useEffect(() => {
+    updateState(remote.state);
+    return remote.subscribe(updateState);
+  }, [remote]);
+  return state;
+}
+
+/**
+ * State of the sync between windows, rendering again when it changes
+ */
+export function useSyncState(sync: FlightSync): SyncState {
+  const [state, updateState] = useState(sync.state);
+  useEffect(() => {
+    updateState(sync.state);
+    return sync.subscribe(updateState);
+  }, [sync]);
+  return state;
+}
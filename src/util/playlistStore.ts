@@ -0,0 +1,96 @@
+import { PlaylistOptions, Track } from '../types/hopalong';
+
+const DATABASE_NAME = 'hopalong';
+const DATABASE_VERSION = 1;
+const TRACKS_STORE = 'tracks';
+const PLAYLIST_STORE = 'playlist';
+const PLAYLIST_KEY = 'playlist';
+
+/** Order of the tracks and the options, the tracks are stored separately with their audio */
+export type StoredPlaylist = PlaylistOptions & {
+  trackIds: string[];
+};
+
+let database: Promise<IDBDatabase> | undefined;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not supported by this browser.'));
+    }
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+      db.createObjectStore(PLAYLIST_STORE);
+    };
+    database = requestToPromise(request);
+    // Allow retrying, e.g. after the user allowed storage
+    database.catch(() => {
+      database = undefined;
+    });
+  }
+  return database;
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Loads the stored tracks in playlist order, tracks missing from the order are appended
+ */
+export async function loadPlaylist(): Promise<{
+  tracks: Track[];
+  options?: PlaylistOptions;
+}> {
+  const db = await openDatabase();
+  const transaction = db.transaction([TRACKS_STORE, PLAYLIST_STORE], 'readonly');
+  const [tracks, stored] = await Promise.all([
+    requestToPromise<Track[]>(transaction.objectStore(TRACKS_STORE).getAll()),
+    requestToPromise<StoredPlaylist | undefined>(
+      transaction.objectStore(PLAYLIST_STORE).get(PLAYLIST_KEY)
+    ),
+  ]);
+  if (!stored) {
+    return { tracks };
+  }
+  const { trackIds, ...options } = stored;
+  const position = (track: Track) => {
+    const index = trackIds.indexOf(track.id);
+    return index === -1 ? trackIds.length : index;
+  };
+  return { tracks: tracks.sort((a, b) => position(a) - position(b)), options };
+}
+
+/**
+ * Stores the order and options of the playlist, along with the given new tracks
+ */
+export async function savePlaylist(playlist: StoredPlaylist, addedTracks: Track[] = []) {
+  const db = await openDatabase();
+  const transaction = db.transaction([TRACKS_STORE, PLAYLIST_STORE], 'readwrite');
+  const trackStore = transaction.objectStore(TRACKS_STORE);
+  for (const track of addedTracks) {
+    trackStore.put(track);
+  }
+  transaction.objectStore(PLAYLIST_STORE).put(playlist, PLAYLIST_KEY);
+  await transactionDone(transaction);
+}
+
+export async function deletePlaylistTrack(id: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(TRACKS_STORE, 'readwrite');
+  transaction.objectStore(TRACKS_STORE).delete(id);
+  await transactionDone(transaction);
+}
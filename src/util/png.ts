@@ -0,0 +1,38 @@
+import { crc32 } from './crc32';
+
+const PNG_SIGNATURE_LENGTH = 8;
+// Length, type, 13 bytes of data and CRC
+const IHDR_CHUNK_LENGTH = 4 + 4 + 13 + 4;
+
+function encodeLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code < 256 ? code : 0x3f; // '?'
+  }
+  return bytes;
+}
+
+function createTextChunk(keyword: string, text: string): Uint8Array {
+  const data = encodeLatin1(`${keyword.slice(0, 79)}\0${text}`);
+  const chunk = new Uint8Array(4 + 4 + data.length + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encodeLatin1('tEXt'), 4);
+  chunk.set(data, 8);
+  // The CRC covers the chunk type and data
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Adds tEXt metadata chunks to a PNG image, right after its header
+ */
+export async function addPngText(png: Blob, entries: { [keyword: string]: string }): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const headerEnd = PNG_SIGNATURE_LENGTH + IHDR_CHUNK_LENGTH;
+  const chunks = Object.entries(entries).map(([keyword, text]) => createTextChunk(keyword, text));
+  return new Blob([bytes.subarray(0, headerEnd), ...chunks, bytes.subarray(headerEnd)], {
+    type: 'image/png',
+  });
+}
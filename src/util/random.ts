@@ -0,0 +1,45 @@
+/** Returns a pseudo-random number in [0, 1), like `Math.random` */
+export type Random = () => number;
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Mulberry32 pseudo-random number generator, the same seed always yields the same sequence.
+ * https://gist.github.com/tommyettinger/46a874533244883189143505d203312c
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+}
+
+/**
+ * Derives an independent seed from another one, so separate consumers of the same seed
+ * don't draw from the same sequence
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  // Murmur3 finalizer
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** Creates a new seed from a non-deterministic source */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE);
+}
+
+/** Parses user input into a seed, returns undefined if it isn't a valid one */
+export function parseSeed(value: string): number | undefined {
+  const seed = Number(value.trim());
+  if (value.trim() === '' || !Number.isInteger(seed) || seed < 0 || seed >= UINT32_RANGE) {
+    return undefined;
+  }
+  return seed;
+}
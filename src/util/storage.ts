@@ -0,0 +1,438 @@
+import { v4 } from 'uuid';
+import { ATTRACTOR_NAMES } from '../attractors';
+import { EXPORT_RESOLUTIONS } from '../capture';
+import { MAX_PALETTE_STOPS, PALETTE_NAMES } from '../palettes';
+import { COUNT_RANGES, COUNT_SETTINGS, REGENERATION_MODES } from '../hopalong';
+import { GAMEPAD_ACTIONS, createGamepadProfile } from '../gamepad';
+import { AUDIO_BEAT_ACTIONS } from '../audio/mapping';
+import { HOPALONG_ACTIONS } from '../actions';
+import { MIDI_PARAMS, MIDI_SETTINGS, controlTypeOf } from '../midi/bindings';
+import { MAX_SYNC_COLUMNS, SYNC_VIEW_MODES } from '../sync/view';
+import {
+  AttractorName,
+  AudioBeatAction,
+  CountSetting,
+  ExportResolution,
+  GamepadInput,
+  GamepadProfile,
+  GamepadProfiles,
+  MidiBinding,
+  MidiControl,
+  MidiTarget,
+  OrbitParams,
+  PaletteName,
+  Preset,
+  RecordingMode,
+  RegenerationMode,
+  SimSettings,
+  SyncView,
+} from '../types/hopalong';
+
+const SETTINGS_KEY = 'hopalong.settings';
+const PRESETS_KEY = 'hopalong.presets';
+const GAMEPAD_PROFILES_KEY = 'hopalong.gamepadProfiles';
+const MIDI_BINDINGS_KEY = 'hopalong.midiBindings';
+const REMOTE_URL_KEY = 'hopalong.remoteUrl';
+const SYNC_VIEW_KEY = 'hopalong.syncView';
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Bump when the meaning of stored settings changes, and add a migration for the old version */
+export const SETTINGS_VERSION = 2;
+
+type StoredSettings = {
+  version: number;
+  settings: Partial<SimSettings>;
+};
+type StoredPresets = {
+  version: number;
+  presets: Preset[];
+};
+type StoredGamepadProfiles = {
+  profiles: GamepadProfile[];
+};
+type StoredMidiBindings = {
+  bindings: MidiBinding[];
+};
+
+/** Migrations from the version they are keyed by to the next one */
+const MIGRATIONS: { [version: number]: (settings: Partial<SimSettings>) => Partial<SimSettings> } =
+  {
+    // Speeds used to be applied per frame, they are per second since version 2
+    1: (settings) => {
+      const migrated = { ...settings };
+      if (typeof settings.speed !== 'undefined') {
+        migrated.speed = settings.speed * 60;
+      }
+      if (typeof settings.rotationSpeed !== 'undefined') {
+        migrated.rotationSpeed = settings.rotationSpeed * 60;
+      }
+      return migrated;
+    },
+  };
+
+export function migrateSettings(settings: Partial<SimSettings>, version: number) {
+  let migrated = settings;
+  for (let v = version; v < SETTINGS_VERSION; v++) {
+    const migration = MIGRATIONS[v];
+    if (migration) {
+      migrated = migration(migrated);
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Rounds a count setting to a whole number and clamps it to its range
+ */
+export function clampCount(setting: CountSetting, value: number) {
+  const [min, max] = COUNT_RANGES[setting];
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * Picks the known settings with valid types out of untrusted data
+ */
+export function sanitizeSettings(raw: unknown): Partial<SimSettings> {
+  if (typeof raw !== 'object' || raw === null) {
+    return {};
+  }
+  const data = raw as { [key: string]: unknown };
+  const settings: Partial<SimSettings> = {};
+  const numberFields = [
+    'speed',
+    'rotationSpeed',
+    'cameraFov',
+    'pointsPerSubset',
+    'subsetCount',
+    'levelCount',
+    'seed',
+    'recordingDuration',
+    'morphDuration',
+    'regenerationInterval',
+    'bloomStrength',
+    'trailLength',
+    'chromaticAberrationAmount',
+    'audioSpeedAmount',
+    'audioRotationAmount',
+    'audioSensitivity',
+    'inputSmoothing',
+    'inputMaxAcceleration',
+  ] as const;
+  for (const field of numberFields) {
+    const value = data[field];
+    if (typeof value === 'number' && isFinite(value)) {
+      settings[field] = value;
+    }
+  }
+  for (const setting of COUNT_SETTINGS) {
+    const value = settings[setting];
+    if (typeof value !== 'undefined') {
+      settings[setting] = clampCount(setting, value);
+    }
+  }
+  const booleanFields = [
+    'mouseLocked',
+    'randomizeAttractor',
+    'morphOrbits',
+    'shaderParticles',
+    'iterationGradient',
+    'bloom',
+    'trails',
+    'chromaticAberration',
+  ] as const;
+  for (const field of booleanFields) {
+    const value = data[field];
+    if (typeof value === 'boolean') {
+      settings[field] = value;
+    }
+  }
+  if (ATTRACTOR_NAMES.includes(data.attractor as AttractorName)) {
+    settings.attractor = data.attractor as AttractorName;
+  }
+  if (REGENERATION_MODES.includes(data.regenerationMode as RegenerationMode)) {
+    settings.regenerationMode = data.regenerationMode as RegenerationMode;
+  }
+  if (AUDIO_BEAT_ACTIONS.includes(data.audioBeatAction as AudioBeatAction)) {
+    settings.audioBeatAction = data.audioBeatAction as AudioBeatAction;
+  }
+  if (PALETTE_NAMES.includes(data.palette as PaletteName)) {
+    settings.palette = data.palette as PaletteName;
+  }
+  if (Array.isArray(data.paletteStops)) {
+    settings.paletteStops = data.paletteStops
+      .filter((stop) => typeof stop === 'string' && HEX_COLOR.test(stop))
+      .slice(0, MAX_PALETTE_STOPS);
+  }
+  if (typeof data.exportResolution === 'string' && data.exportResolution in EXPORT_RESOLUTIONS) {
+    settings.exportResolution = data.exportResolution as ExportResolution;
+  }
+  if (data.recordingMode === 'realtime' || data.recordingMode === 'offline') {
+    settings.recordingMode = data.recordingMode as RecordingMode;
+  }
+  if (typeof data.pinnedParams === 'object' && data.pinnedParams !== null) {
+    const pinnedParams: Partial<OrbitParams<number>> = {};
+    for (const [name, value] of Object.entries(data.pinnedParams)) {
+      if (
+        ['a', 'b', 'c', 'd', 'e'].includes(name) &&
+        typeof value === 'number' &&
+        isFinite(value)
+      ) {
+        pinnedParams[name as keyof OrbitParams<number>] = value;
+      }
+    }
+    settings.pinnedParams = pinnedParams;
+  }
+  return settings;
+}
+
+type StorageArea = 'localStorage' | 'sessionStorage';
+
+function readItem(key: string, area: StorageArea = 'localStorage'): unknown {
+  try {
+    const item = window[area].getItem(key);
+    return item === null ? undefined : JSON.parse(item);
+  } catch (e) {
+    // Storage may be disabled, or the item may be corrupted
+    return undefined;
+  }
+}
+
+function writeItem(key: string, value: unknown, area: StorageArea = 'localStorage') {
+  try {
+    window[area].setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Storage may be disabled or full, settings simply won't be persisted
+  }
+}
+
+function readVersion(data: unknown): number {
+  const version = (data as { version?: unknown })?.version;
+  return typeof version === 'number' ? version : SETTINGS_VERSION;
+}
+
+export function loadSettings(): Partial<SimSettings> {
+  const stored = readItem(SETTINGS_KEY) as StoredSettings | undefined;
+  if (!stored) {
+    return {};
+  }
+  return migrateSettings(sanitizeSettings(stored.settings), readVersion(stored));
+}
+
+/** Settings as they were last saved, so unchanged ones aren't written again */
+let savedSettings: string | undefined;
+
+export function saveSettings(settings: SimSettings) {
+  // Every visit starts a new flight, the seed is only kept in links and presets
+  const persisted = sanitizeSettings(settings);
+  delete persisted.seed;
+  const stored: StoredSettings = { version: SETTINGS_VERSION, settings: persisted };
+  const serialized = JSON.stringify(stored);
+  if (serialized !== savedSettings) {
+    savedSettings = serialized;
+    writeItem(SETTINGS_KEY, stored);
+  }
+}
+
+function parsePresets(data: unknown): Preset[] {
+  const presets = (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(presets)) {
+    return [];
+  }
+  const version = readVersion(data);
+  return presets
+    .filter((preset) => typeof preset?.name === 'string')
+    .map((preset) => ({
+      id: typeof preset.id === 'string' ? preset.id : v4(),
+      name: preset.name,
+      settings: migrateSettings(sanitizeSettings(preset.settings), version),
+    }));
+}
+
+export function loadPresets(): Preset[] {
+  return parsePresets(readItem(PRESETS_KEY));
+}
+
+export function savePresets(presets: Preset[]) {
+  const stored: StoredPresets = { version: SETTINGS_VERSION, presets };
+  writeItem(PRESETS_KEY, stored);
+}
+
+export function createPreset(name: string, settings: Partial<SimSettings>): Preset {
+  return { id: v4(), name, settings: sanitizeSettings(settings) };
+}
+
+export function exportPresets(presets: Preset[]): Blob {
+  const stored: StoredPresets = { version: SETTINGS_VERSION, presets };
+  return new Blob([JSON.stringify(stored, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Parses exported presets, they are given new ids so importing twice doesn't clash
+ */
+export function importPresets(json: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Presets file is not valid JSON.');
+  }
+  return parsePresets(data).map((preset) => ({ ...preset, id: v4() }));
+}
+
+function sanitizeGamepadInput(raw: unknown): GamepadInput | null {
+  const input = raw as { type?: unknown; index?: unknown; inverted?: unknown } | null;
+  if (typeof input?.index !== 'number' || !Number.isInteger(input.index) || input.index < 0) {
+    return null;
+  }
+  if (input.type === 'button') {
+    return { type: 'button', index: input.index };
+  }
+  if (input.type === 'axis') {
+    return { type: 'axis', index: input.index, inverted: input.inverted === true };
+  }
+  return null;
+}
+
+/**
+ * Reads a stored profile, actions that are missing keep the default bindings
+ */
+function sanitizeGamepadProfile(raw: unknown): GamepadProfile | null {
+  const data = raw as { [key: string]: unknown } | null;
+  if (typeof data?.id !== 'string') {
+    return null;
+  }
+  const profile = createGamepadProfile(data.id);
+  const bindings = data.bindings as { [action: string]: unknown } | undefined;
+  for (const action of GAMEPAD_ACTIONS) {
+    const binding = bindings?.[action] as { positive?: unknown; negative?: unknown } | undefined;
+    if (typeof binding === 'object' && binding !== null) {
+      profile.bindings[action] = {
+        positive: sanitizeGamepadInput(binding.positive),
+        negative: sanitizeGamepadInput(binding.negative),
+      };
+    }
+  }
+  if (typeof data.deadzone === 'number' && data.deadzone >= 0 && data.deadzone < 1) {
+    profile.deadzone = data.deadzone;
+  }
+  if (typeof data.curve === 'number' && data.curve > 0 && isFinite(data.curve)) {
+    profile.curve = data.curve;
+  }
+  return profile;
+}
+
+export function loadGamepadProfiles(): GamepadProfiles {
+  const stored = (readItem(GAMEPAD_PROFILES_KEY) as { profiles?: unknown } | undefined)?.profiles;
+  const profiles: GamepadProfiles = {};
+  if (Array.isArray(stored)) {
+    for (const raw of stored) {
+      const profile = sanitizeGamepadProfile(raw);
+      if (profile) {
+        profiles[profile.id] = profile;
+      }
+    }
+  }
+  return profiles;
+}
+
+export function saveGamepadProfiles(profiles: GamepadProfiles) {
+  const stored: StoredGamepadProfiles = { profiles: Object.values(profiles) };
+  writeItem(GAMEPAD_PROFILES_KEY, stored);
+}
+
+const isMidiNumber = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+function sanitizeMidiTarget(raw: unknown): MidiTarget | null {
+  const target = raw as { [key: string]: unknown } | null;
+  const setting = MIDI_SETTINGS.find((name) => name === target?.setting);
+  const param = MIDI_PARAMS.find((name) => name === target?.param);
+  const action = HOPALONG_ACTIONS.find((name) => name === target?.action);
+  const palette = PALETTE_NAMES.find((name) => name === target?.palette);
+  if (target?.type === 'setting' && setting) {
+    return { type: 'setting', setting };
+  }
+  if (target?.type === 'param' && param) {
+    return { type: 'param', param };
+  }
+  if (target?.type === 'action' && action) {
+    return { type: 'action', action };
+  }
+  if (target?.type === 'palette' && palette) {
+    return { type: 'palette', palette };
+  }
+  return null;
+}
+
+/**
+ * Reads a stored binding, dropping it when the control can't drive the target
+ */
+function sanitizeMidiBinding(raw: unknown): MidiBinding | null {
+  const data = raw as { control?: { [key: string]: unknown }; target?: unknown } | null;
+  const target = sanitizeMidiTarget(data?.target);
+  const control = data?.control;
+  if (
+    !target ||
+    control?.type !== controlTypeOf(target) ||
+    !isMidiNumber(control.channel, 15) ||
+    !isMidiNumber(control.number, 127)
+  ) {
+    return null;
+  }
+  const { type, channel, number } = control as MidiControl;
+  return { control: { type, channel, number }, target };
+}
+
+export function loadMidiBindings(): MidiBinding[] {
+  const stored = (readItem(MIDI_BINDINGS_KEY) as { bindings?: unknown } | undefined)?.bindings;
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return stored
+    .map(sanitizeMidiBinding)
+    .filter((binding): binding is MidiBinding => binding !== null);
+}
+
+export function saveMidiBindings(bindings: MidiBinding[]) {
+  const stored: StoredMidiBindings = { bindings };
+  writeItem(MIDI_BINDINGS_KEY, stored);
+}
+
+export function loadRemoteUrl(): string | undefined {
+  const stored = readItem(REMOTE_URL_KEY);
+  return typeof stored === 'string' ? stored : undefined;
+}
+
+export function saveRemoteUrl(url: string) {
+  writeItem(REMOTE_URL_KEY, url);
+}
+
+/**
+ * Part of the panorama this screen showed, so a wall of screens comes back the same way when
+ * reloaded. It is kept per tab, as windows side by side each show their own part.
+ */
+export function loadSyncView(): SyncView | undefined {
+  const stored = readItem(SYNC_VIEW_KEY, 'sessionStorage') as
+    | { [key: string]: unknown }
+    | undefined;
+  const mode = SYNC_VIEW_MODES.find((current) => current === stored?.mode);
+  const { columns, column } = stored ?? {};
+  if (
+    !mode ||
+    typeof columns !== 'number' ||
+    typeof column !== 'number' ||
+    !Number.isInteger(columns) ||
+    !Number.isInteger(column) ||
+    columns < 1 ||
+    columns > MAX_SYNC_COLUMNS ||
+    column < 0 ||
+    column >= columns
+  ) {
+    return undefined;
+  }
+  return { mode, columns, column };
+}
+
+export function saveSyncView(view: SyncView) {
+  writeItem(SYNC_VIEW_KEY, view, 'sessionStorage');
+}
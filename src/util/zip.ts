@@ -0,0 +1,88 @@
+import { crc32 } from './crc32';
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+function toDosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+/**
+ * Builds an uncompressed ZIP archive one entry at a time. Already compressed data like PNG
+ * images gains next to nothing from deflating, so entries are simply stored. Each entry is moved
+ * into a blob as it is added, which browsers can keep out of memory, so long frame sequences
+ * don't have to be held as arrays until the end.
+ */
+export class ZipWriter {
+  private encoder = new TextEncoder();
+  private dateTime = toDosDateTime(new Date());
+  private parts: Blob[] = [];
+  private centralDirectory: Uint8Array[] = [];
+  private offset = 0;
+
+  add({ name, data }: ZipEntry) {
+    const [time, day] = this.dateTime;
+    const nameBytes = this.encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, day, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + nameBytes.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, day, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, nameBytes.length, true);
+    centralView.setUint32(42, this.offset, true);
+    central.set(nameBytes, CENTRAL_HEADER_SIZE);
+
+    this.parts.push(new Blob([local, data]));
+    this.centralDirectory.push(central);
+    this.offset += local.length + data.length;
+  }
+
+  get entryCount() {
+    return this.centralDirectory.length;
+  }
+
+  finish(): Blob {
+    const { centralDirectory, entryCount, offset } = this;
+    const centralSize = centralDirectory.reduce((size, central) => size + central.length, 0);
+    const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, entryCount, true);
+    endView.setUint16(10, entryCount, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...this.parts, ...centralDirectory, end], { type: 'application/zip' });
+  }
+}